@@ -4,20 +4,44 @@
 */
 
 
-import React, { Suspense } from 'react';
+import React, { Suspense, useMemo, useEffect, useRef } from 'react';
 import { Canvas, useFrame, useThree } from '@react-three/fiber';
 import * as THREE from 'three';
 import { Environment } from './components/World/Environment';
 import { Player } from './components/World/Player';
 import { LevelManager } from './components/World/LevelManager';
 import { Effects } from './components/World/Effects';
-import { HUD } from './components/UI/HUD';
+import { GameLoop } from './components/World/GameLoop';
+import { PerformanceGovernor } from './components/World/PerformanceGovernor';
+import { MusicDirector } from './components/World/MusicDirector';
+import { HazardAudio } from './components/World/HazardAudio';
+import { HitboxOverlay } from './components/World/HitboxOverlay';
+import { BenchmarkRunner } from './components/World/BenchmarkRunner';
+import { HUD, GamepadIndicator, AchievementToasts, PerformanceReadout, BenchmarkReadout, DevConsole } from './components/UI/HUD';
 import { useStore } from './store';
+import { GameSimulation } from './components/System/Simulation';
+import { SimulationContext } from './components/System/SimulationContext';
+import { trackAchievements } from './components/System/Achievements';
+import { trackRunStarts } from './components/System/Records';
+import { useSettings, syncAudioSettings, RESOLUTION_DPR } from './components/System/Settings';
+import { useSimulation } from './components/System/SimulationContext';
+import { useQualityCaps } from './components/System/Performance';
+import { isBenchmarkFromUrl } from './components/System/Benchmark';
+import { BOSS_DISTANCE } from './types';
+
+// Boss framing: pulled up and back, looking past the track's usual end at the boss
+const BOSS_CAMERA_RAISE = 3;
+const BOSS_CAMERA_PULLBACK = 4;
+const BOSS_LOOK_AT: [number, number] = [3, -BOSS_DISTANCE]; // Height and depth: its chest
+const RUN_LOOK_AT: [number, number] = [0, -30];
 
 // Dynamic Camera Controller
 const CameraController = () => {
   const { camera, size } = useThree();
   const { laneCount } = useStore();
+  const { cameraSensitivity, cameraSway } = useSettings();
+  const simulation = useSimulation();
+  const lookAt = useRef(new THREE.Vector3(0, ...RUN_LOOK_AT));
   
   useFrame((state, delta) => {
     // Determine if screen is narrow (mobile portrait)
@@ -35,31 +59,54 @@ const CameraController = () => {
     // Calculate target based on how many extra lanes we have relative to the start
     const extraLanes = Math.max(0, laneCount - 3);
 
-    const targetY = 5.5 + (extraLanes * heightFactor);
-    const targetZ = 8.0 + (extraLanes * distFactor);
+    const isBossFight = !!simulation.boss;
+    const targetY = 5.5 + (extraLanes * heightFactor) + (isBossFight ? BOSS_CAMERA_RAISE : 0);
+    const targetZ = 8.0 + (extraLanes * distFactor) + (isBossFight ? BOSS_CAMERA_PULLBACK : 0);
 
-    const targetPos = new THREE.Vector3(0, targetY, targetZ);
+    // Optional sway: drift a little towards the player's lane
+    const targetX = cameraSway ? simulation.player.x * 0.3 : 0;
+    const targetPos = new THREE.Vector3(targetX, targetY, targetZ);
     
-    // Smoothly interpolate camera position
-    camera.position.lerp(targetPos, delta * 2.0);
+    // Smoothly interpolate camera position; sensitivity speeds up or slows down the follow
+    camera.position.lerp(targetPos, Math.min(1, delta * 2.0 * cameraSensitivity));
     
-    // Look further down the track to see the end of lanes
-    // Adjust look target slightly based on height to maintain angle
-    camera.lookAt(0, 0, -30); 
+    // Look further down the track to see the end of lanes; the boss fight shifts up and out to take it in
+    const [lookY, lookZ] = isBossFight ? BOSS_LOOK_AT : RUN_LOOK_AT;
+    lookAt.current.lerp(new THREE.Vector3(0, lookY, lookZ), Math.min(1, delta * 2.0 * cameraSensitivity));
+    camera.lookAt(lookAt.current);
   });
   
   return null;
 };
 
 function Scene() {
+  const showHitboxes = useSettings(state => state.showHitboxes);
+
+  return (
+    <>
+        <GameLoop />
+        <PerformanceGovernor />
+        <MusicDirector />
+        <HazardAudio />
+        <Environment />
+        <group>
+            <Player />
+            <LevelManager />
+            {showHitboxes && <HitboxOverlay />}
+        </group>
+        <Effects />
+    </>
+  );
+}
+
+// Fixed quality and no gameplay, so runs of the benchmark compare like for like
+function BenchmarkScene() {
   return (
     <>
+        <BenchmarkRunner />
         <Environment />
         <group>
-            {/* Attach a userData to identify player group for LevelManager collision logic */}
-            <group userData={{ isPlayer: true }} name="PlayerGroup">
-                 <Player />
-            </group>
+            <Player />
             <LevelManager />
         </group>
         <Effects />
@@ -68,22 +115,44 @@ function Scene() {
 }
 
 function App() {
+  // Gameplay runs headless in here; everything under the Canvas just draws it
+  const simulation = useMemo(() => new GameSimulation(useStore), []);
+  const isBenchmark = useMemo(isBenchmarkFromUrl, []);
+
+  const { shadows, resolution } = useSettings();
+  const caps = useQualityCaps();
+  const [minDpr, maxDpr] = RESOLUTION_DPR[resolution];
+
+  useEffect(() => trackAchievements(), []);
+  useEffect(() => trackRunStarts(), []);
+  useEffect(() => syncAudioSettings(), []);
+
   return (
-    <div className="relative w-full h-screen bg-black overflow-hidden select-none">
-      <HUD />
-      <Canvas
-        shadows
-        dpr={[1, 1.5]} 
-        gl={{ antialias: false, stencil: false, depth: true, powerPreference: "high-performance" }}
-        // Initial camera, matches the controller base
-        camera={{ position: [0, 5.5, 8], fov: 60 }}
-      >
-        <CameraController />
-        <Suspense fallback={null}>
-            <Scene />
-        </Suspense>
-      </Canvas>
-    </div>
+    <SimulationContext.Provider value={simulation}>
+      <div className="relative w-full h-screen bg-black overflow-hidden select-none">
+        {isBenchmark ? <BenchmarkReadout /> : (
+          <>
+            <HUD />
+            <GamepadIndicator />
+            <AchievementToasts />
+            <PerformanceReadout />
+            <DevConsole />
+          </>
+        )}
+        <Canvas
+          shadows={shadows !== 'OFF' && caps.shadows}
+          dpr={[Math.min(minDpr, caps.maxDpr), Math.min(maxDpr, caps.maxDpr)]}
+          gl={{ antialias: false, stencil: false, depth: true, powerPreference: "high-performance" }}
+          // Initial camera, matches the controller base
+          camera={{ position: [0, 5.5, 8], fov: 60 }}
+        >
+          <CameraController />
+          <Suspense fallback={null}>
+              {isBenchmark ? <BenchmarkScene /> : <Scene />}
+          </Suspense>
+        </Canvas>
+      </div>
+    </SimulationContext.Provider>
   );
 }
 
@@ -0,0 +1,197 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { useStore } from '../../store';
+import type { GameState } from '../../gameState';
+import { GameStatus } from '../../types';
+import { MAX_LEVEL } from '../../levels';
+import { isCheatedRun } from './DevTools';
+
+// What the tracker reads out of store changes during a run
+export type AchievementEvent =
+  | { type: 'GEM'; runGems: number }
+  | { type: 'LETTER' }
+  | { type: 'HIT' }
+  | { type: 'PURCHASE' }
+  | { type: 'LEVEL_CLEARED'; level: number; levelHits: number }
+  | { type: 'VICTORY'; hitsTaken: number; itemsBought: number };
+
+export interface Achievement {
+  id: string;
+  name: string;
+  description: string;
+  goal: number;
+  // New progress after an event, or null if the event doesn't concern this achievement
+  update: (event: AchievementEvent, progress: number) => number | null;
+}
+
+export const ACHIEVEMENTS: Achievement[] = [
+  {
+    id: 'FIRST_SPIRIT',
+    name: 'FIRST LIGHT',
+    description: 'Collect your first spirit.',
+    goal: 1,
+    update: (e, p) => e.type === 'GEM' ? p + 1 : null,
+  },
+  {
+    id: 'SPIRIT_HOARD',
+    name: 'SPIRIT HOARDER',
+    description: 'Collect 100 spirits in one hunt.',
+    goal: 100,
+    update: (e, p) => e.type === 'GEM' ? Math.max(p, e.runGems) : null,
+  },
+  {
+    id: 'SPIRIT_KEEPER',
+    name: 'KEEPER OF SPIRITS',
+    description: 'Collect 1,000 spirits across all hunts.',
+    goal: 1000,
+    update: (e, p) => e.type === 'GEM' ? p + 1 : null,
+  },
+  {
+    id: 'WORDSMITH',
+    name: 'WORDSMITH',
+    description: 'Gather 50 sacred letters.',
+    goal: 50,
+    update: (e, p) => e.type === 'LETTER' ? p + 1 : null,
+  },
+  {
+    id: 'THICK_HIDE',
+    name: 'THICK HIDE',
+    description: 'Take 50 hits across all hunts.',
+    goal: 50,
+    update: (e, p) => e.type === 'HIT' ? p + 1 : null,
+  },
+  {
+    id: 'TRADER',
+    name: 'FRIEND OF THE TRADER',
+    description: 'Buy 10 items from the trader.',
+    goal: 10,
+    update: (e, p) => e.type === 'PURCHASE' ? p + 1 : null,
+  },
+  {
+    id: 'UNTOUCHED',
+    name: 'UNTOUCHED',
+    description: 'Clear zone 2 without a hit.',
+    goal: 1,
+    update: (e) => e.type === 'LEVEL_CLEARED' && e.level === 2 && e.levelHits === 0 ? 1 : null,
+  },
+  {
+    id: 'PATHFINDER',
+    name: 'PATHFINDER',
+    description: `Reach zone ${MAX_LEVEL}.`,
+    goal: 1,
+    update: (e) => e.type === 'LEVEL_CLEARED' && e.level + 1 >= MAX_LEVEL ? 1 : null,
+  },
+  {
+    id: 'CHAMPION',
+    name: 'ANCESTRAL CHAMPION',
+    description: 'Win a hunt.',
+    goal: 1,
+    update: (e) => e.type === 'VICTORY' ? 1 : null,
+  },
+  {
+    id: 'ASCETIC',
+    name: 'ASCETIC',
+    description: 'Win without buying anything.',
+    goal: 1,
+    update: (e) => e.type === 'VICTORY' && e.itemsBought === 0 ? 1 : null,
+  },
+  {
+    id: 'FLAWLESS',
+    name: 'FLAWLESS HUNT',
+    description: 'Win without taking a hit.',
+    goal: 1,
+    update: (e) => e.type === 'VICTORY' && e.hitsTaken === 0 ? 1 : null,
+  },
+];
+
+interface AchievementsState {
+  progress: Record<string, number>;
+  unlockedAt: Record<string, string>; // ISO timestamp per unlocked id
+
+  // Unlocks waiting to be shown by the HUD (not persisted)
+  toasts: string[];
+
+  applyEvent: (event: AchievementEvent) => void;
+  dismissToast: (id: string) => void;
+  resetAchievements: () => void;
+}
+
+export const useAchievements = create<AchievementsState>()(
+  persist(
+    (set, get) => ({
+      progress: {},
+      unlockedAt: {},
+      toasts: [],
+
+      applyEvent: (event) => {
+        const { unlockedAt } = get();
+        const progress = { ...get().progress };
+        const unlocked: string[] = [];
+
+        ACHIEVEMENTS.forEach(achievement => {
+          if (unlockedAt[achievement.id]) return;
+          const next = achievement.update(event, progress[achievement.id] ?? 0);
+          if (next === null) return;
+
+          progress[achievement.id] = Math.min(next, achievement.goal);
+          if (next >= achievement.goal) unlocked.push(achievement.id);
+        });
+
+        const now = new Date().toISOString();
+        set((state) => ({
+          progress,
+          unlockedAt: { ...state.unlockedAt, ...Object.fromEntries(unlocked.map(id => [id, now])) },
+          toasts: [...state.toasts, ...unlocked],
+        }));
+      },
+
+      dismissToast: (id) => set((state) => ({ toasts: state.toasts.filter(t => t !== id) })),
+
+      resetAchievements: () => set({ progress: {}, unlockedAt: {}, toasts: [] }),
+    }),
+    {
+      name: 'indi-hunter-achievements',
+      version: 1,
+      partialize: (state) => ({ progress: state.progress, unlockedAt: state.unlockedAt }),
+    }
+  )
+);
+
+export const getAchievement = (id: string) => ACHIEVEMENTS.find(a => a.id === id);
+
+// Reads gameplay out of store transitions: gems, letters, hits, purchases, level clears
+// and the VICTORY transition
+const getEvents = (state: GameState, prev: GameState): AchievementEvent[] => {
+  const events: AchievementEvent[] = [];
+
+  for (let i = prev.gemsCollected; i < state.gemsCollected; i++) {
+    events.push({ type: 'GEM', runGems: i + 1 });
+  }
+  if (state.level === prev.level && state.collectedLetters.length > prev.collectedLetters.length) {
+    events.push({ type: 'LETTER' });
+  }
+  if (state.hitsTaken > prev.hitsTaken) events.push({ type: 'HIT' });
+  if (state.itemsBought > prev.itemsBought) events.push({ type: 'PURCHASE' });
+  if (state.level > prev.level) {
+    events.push({ type: 'LEVEL_CLEARED', level: prev.level, levelHits: prev.levelHitsTaken });
+  }
+  if (state.status === GameStatus.VICTORY && prev.status !== GameStatus.VICTORY) {
+    events.push({ type: 'VICTORY', hitsTaken: state.hitsTaken, itemsBought: state.itemsBought });
+  }
+  return events;
+};
+
+// Subscribes to the game store; returns the unsubscribe function
+export const trackAchievements = () => useStore.subscribe((state, prev) => {
+  // A new or restored run isn't progress, and watching a replay or cheating doesn't count
+  if (state.runId !== prev.runId || state.isReplay || isCheatedRun(state.runId)) return;
+
+  const { applyEvent } = useAchievements.getState();
+  getEvents(state, prev).forEach(applyEvent);
+});
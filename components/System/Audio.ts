@@ -4,9 +4,47 @@
 */
 
 
+import type { GameEventBus } from './Events';
+import { MusicSequencer } from './Music';
+import { SoundBank } from './SoundBank';
+import type { SoundCue } from './SynthRecipes';
+
+type Position = [number, number, number];
+
+// Spatial mix, heard from the camera: x pans across the lanes, distance down the track fades out
+const PAN_WIDTH = 8; // Units off-centre for a hard pan (outer lane of the 7-lane stage)
+const REF_DISTANCE = 10; // Full volume within this distance
+const HUM_VOLUME = 0.12;
+const HUM_FADE = 0.3;
+
+export const getSpatialMix = (position: Position) => {
+  const pan = Math.max(-1, Math.min(1, position[0] / PAN_WIDTH));
+  const distance = Math.hypot(position[0], position[2]);
+  const gain = REF_DISTANCE / (REF_DISTANCE + Math.max(0, distance - REF_DISTANCE));
+  return { pan, gain };
+};
+
+// Something humming on the track; the key must be unique to it, e.g. a spawn id
+export interface HumSource {
+  key: number;
+  position: Position;
+}
+
+interface HumVoice {
+  oscillators: OscillatorNode[];
+  panner: StereoPannerNode;
+  gain: GainNode;
+}
+
 export class AudioController {
   ctx: AudioContext | null = null;
   masterGain: GainNode | null = null;
+  volume = 0.4; // Master gain, set from the settings
+  bank = new SoundBank();
+  music = new MusicSequencer(this);
+
+  private hums = new Map<number, HumVoice>(); // Looping voices keyed by source
+  private heardHums = new Set<number>();
 
   constructor() {
     // Lazy initialization
@@ -17,142 +55,119 @@ export class AudioController {
       // Support for standard and webkit prefixed AudioContext
       this.ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
       this.masterGain = this.ctx.createGain();
-      this.masterGain.gain.value = 0.4; // Master volume
+      this.masterGain.gain.value = this.volume;
       this.masterGain.connect(this.ctx.destination);
+      this.bank.load(this.ctx);
     }
     if (this.ctx.state === 'suspended') {
       this.ctx.resume().catch(() => {});
     }
   }
 
-  // Spirit Orb Collection (Wind Chime / Flute)
-  playGemCollect() {
-    if (!this.ctx || !this.masterGain) this.init();
-    if (!this.ctx || !this.masterGain) return;
-
-    const t = this.ctx.currentTime;
-    const osc = this.ctx.createOscillator();
-    const gain = this.ctx.createGain();
+  setVolume(volume: number) {
+    this.volume = volume;
+    if (this.ctx && this.masterGain) {
+      this.masterGain.gain.setTargetAtTime(volume, this.ctx.currentTime, 0.02);
+    }
+  }
 
-    osc.type = 'triangle'; // Flute-like
-    osc.frequency.setValueAtTime(800, t);
-    osc.frequency.linearRampToValueAtTime(1200, t + 0.1);
+  // Plays the gameplay cues for one game instance; returns the unsubscribe function
+  subscribe(bus: GameEventBus) {
+    const offs = [
+      bus.on('jump', (e) => this.play(e.isDouble ? 'doubleJump' : 'jump')),
+      bus.on('slide', () => this.play('slide')),
+      bus.on('collect', (e) => this.play('gem', e.position)),
+      bus.on('letter', (e) => this.play('letter', e.position)),
+      bus.on('powerup', (e) => this.play('powerUp', e.position)),
+      bus.on('charge', (e) => this.play('charge', e.position)),
+      bus.on('throw', () => this.play('throw')),
+      bus.on('kill', (e) => this.play('kill', e.position)),
+      bus.on('spear-blocked', (e) => this.play('spearBlocked', e.position)),
+      bus.on('near-miss', (e) => this.play('nearMiss', e.position)),
+      bus.on('boss-telegraph', () => this.play('bossWarning')),
+      bus.on('boss-hit', () => this.play('bossHit')),
+      bus.on('hit', (e) => { if (!e.isBlocked) this.play('damage'); }),
+    ];
+    return () => offs.forEach(off => off());
+  }
 
-    gain.gain.setValueAtTime(0.3, t);
-    gain.gain.exponentialRampToValueAtTime(0.01, t + 0.3);
+  // Where a one-shot sound goes: panned and attenuated for a world position, straight to master otherwise
+  private getOutput(position?: Position): AudioNode {
+    const ctx = this.ctx!;
+    if (!position) return this.masterGain!;
 
-    osc.connect(gain);
-    gain.connect(this.masterGain);
+    const { pan, gain } = getSpatialMix(position);
+    const panner = ctx.createStereoPanner();
+    panner.pan.value = pan;
+    const attenuation = ctx.createGain();
+    attenuation.gain.value = gain;
 
-    osc.start(t);
-    osc.stop(t + 0.3);
+    panner.connect(attenuation);
+    attenuation.connect(this.masterGain!);
+    return panner;
   }
 
-  // Letter Collection (Heavy Drum/Tribal Beat)
-  playLetterCollect() {
+  // One-shot cue from the sound bank, panned to a world position if given
+  play(cue: SoundCue, position?: Position) {
     if (!this.ctx || !this.masterGain) this.init();
     if (!this.ctx || !this.masterGain) return;
 
-    const t = this.ctx.currentTime;
-    
-    // Tribal Percussion Chord
-    const freqs = [150, 200]; 
-    
-    freqs.forEach((f, i) => {
-        const osc = this.ctx!.createOscillator();
-        const gain = this.ctx!.createGain();
-        
-        osc.type = 'sine'; // Drum-like
-        osc.frequency.setValueAtTime(f, t);
-        osc.frequency.exponentialRampToValueAtTime(f * 0.5, t + 0.1); // Pitch drop
-        
-        gain.gain.setValueAtTime(0.5, t);
-        gain.gain.exponentialRampToValueAtTime(0.01, t + 0.15);
-
-        osc.connect(gain);
-        gain.connect(this.masterGain!);
-        
-        osc.start(t);
-        osc.stop(t + 0.15);
-    });
+    this.bank.play(cue, this.getOutput(position));
   }
 
-  // Jump (Wood block / Swoosh)
-  playJump(isDouble = false) {
-    if (!this.ctx || !this.masterGain) this.init();
+  // Continuous hums (e.g. forest spirits) that follow their sources. Pass the first `count`
+  // sources that should be heard this frame; voices for missing keys fade out. Called every
+  // frame, so the caller reuses its buffer. Never starts the AudioContext itself.
+  updateHums(sources: readonly HumSource[], count = sources.length) {
     if (!this.ctx || !this.masterGain) return;
-
     const t = this.ctx.currentTime;
-    const osc = this.ctx.createOscillator();
-    const gain = this.ctx.createGain();
-
-    // Filtered noise or quick sweep
-    osc.type = 'triangle';
-    
-    const startFreq = isDouble ? 600 : 300;
-    const endFreq = isDouble ? 900 : 500;
-
-    osc.frequency.setValueAtTime(startFreq, t);
-    osc.frequency.linearRampToValueAtTime(endFreq, t + 0.1);
-
-    gain.gain.setValueAtTime(0.15, t);
-    gain.gain.linearRampToValueAtTime(0.01, t + 0.1);
-
-    osc.connect(gain);
-    gain.connect(this.masterGain);
+    const heard = this.heardHums;
+    heard.clear();
+
+    for (let i = 0; i < count; i++) {
+      const { key, position } = sources[i];
+      heard.add(key);
+      const voice = this.hums.get(key) ?? this.createHum(key);
+      const { pan, gain } = getSpatialMix(position);
+      voice.panner.pan.setTargetAtTime(pan, t, 0.05);
+      voice.gain.gain.setTargetAtTime(gain * HUM_VOLUME, t, 0.1);
+    }
 
-    osc.start(t);
-    osc.stop(t + 0.1);
+    this.hums.forEach((voice, key) => {
+      if (heard.has(key)) return;
+      voice.gain.gain.setTargetAtTime(0, t, HUM_FADE / 3);
+      voice.oscillators.forEach(osc => osc.stop(t + HUM_FADE));
+      this.hums.delete(key);
+    });
   }
 
-  // Damage (Heavy Impact / Log Hit)
-  playDamage() {
-    if (!this.ctx || !this.masterGain) this.init();
-    if (!this.ctx || !this.masterGain) return;
+  // Two slightly detuned saws beat against each other for an eerie wobble
+  private createHum(key: number): HumVoice {
+    const ctx = this.ctx!;
+    const filter = ctx.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.frequency.value = 240;
+
+    const panner = ctx.createStereoPanner();
+    const gain = ctx.createGain();
+    gain.gain.value = 0;
+
+    const oscillators = [60, 62.5].map(freq => {
+      const osc = ctx.createOscillator();
+      osc.type = 'sawtooth';
+      osc.frequency.value = freq;
+      osc.connect(filter);
+      osc.start();
+      return osc;
+    });
 
-    const t = this.ctx.currentTime;
-    
-    // 1. Noise buffer for "crunch/leaves"
-    const bufferSize = this.ctx.sampleRate * 0.3; 
-    const buffer = this.ctx.createBuffer(1, bufferSize, this.ctx.sampleRate);
-    const data = buffer.getChannelData(0);
-    for (let i = 0; i < bufferSize; i++) {
-        data[i] = Math.random() * 2 - 1;
-    }
+    filter.connect(panner);
+    panner.connect(gain);
+    gain.connect(this.masterGain!);
 
-    const noise = this.ctx.createBufferSource();
-    noise.buffer = buffer;
-    
-    // 2. Low kick for impact
-    const osc = this.ctx.createOscillator();
-    osc.type = 'square';
-    osc.frequency.setValueAtTime(80, t);
-    osc.frequency.exponentialRampToValueAtTime(10, t + 0.3);
-
-    const oscGain = this.ctx.createGain();
-    oscGain.gain.setValueAtTime(0.4, t);
-    oscGain.gain.exponentialRampToValueAtTime(0.01, t + 0.3);
-
-    const noiseGain = this.ctx.createGain();
-    noiseGain.gain.setValueAtTime(0.3, t);
-    noiseGain.gain.exponentialRampToValueAtTime(0.01, t + 0.2);
-
-    // Lowpass filter for the noise to sound like a thud
-    const filter = this.ctx.createBiquadFilter();
-    filter.type = 'lowpass';
-    filter.frequency.value = 500;
-
-    noise.connect(filter);
-    filter.connect(noiseGain);
-    noiseGain.connect(this.masterGain);
-
-    osc.connect(oscGain);
-    oscGain.connect(this.masterGain);
-    
-    osc.start(t);
-    osc.stop(t + 0.3);
-    noise.start(t);
-    noise.stop(t + 0.3);
+    const voice = { oscillators, panner, gain };
+    this.hums.set(key, voice);
+    return voice;
   }
 }
 
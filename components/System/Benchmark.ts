@@ -0,0 +1,143 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+// Rendering benchmark: ?benchmark in the URL swaps the game for a dense, endless 9-lane field
+// and measures frame times and draw calls. Nothing is stepped, hit or scored.
+
+import { create } from 'zustand';
+import { ObjectType, LANE_WIDTH, SPAWN_DISTANCE, REMOVE_DISTANCE, RUN_SPEED_BASE, DEFAULT_TARGET_WORD, LETTER_COLORS } from '../../types';
+import type { GameSimulation } from './Simulation';
+
+export const BENCHMARK_LANES = 9;
+export const BENCHMARK_WORD = DEFAULT_TARGET_WORD.split('');
+
+const ROW_GAP = 8; // Much tighter than real spawning ever packs rows
+const FIELD_SPEED = RUN_SPEED_BASE * 1.5;
+const WARMUP = 2; // Seconds ignored while shaders compile and the field fills up
+const DURATION = 15; // Seconds measured
+
+export const isBenchmarkFromUrl = () => new URLSearchParams(window.location.search).has('benchmark');
+
+// Fills every lane of every row, cycling through all the track object types
+export class BenchmarkField {
+  private simulation: GameSimulation;
+  private row = 0;
+
+  constructor(simulation: GameSimulation) {
+    this.simulation = simulation;
+  }
+
+  update(dt: number) {
+    const sim = this.simulation;
+    const dist = FIELD_SPEED * dt;
+    let furthestZ = 0;
+    for (const obj of sim.objects) {
+      obj.position[2] += dist;
+      furthestZ = Math.min(furthestZ, obj.position[2]);
+    }
+    sim.removeObjects(obj => obj.position[2] > REMOVE_DISTANCE);
+
+    while (furthestZ > -SPAWN_DISTANCE) {
+      furthestZ -= ROW_GAP;
+      this.spawnRow(furthestZ);
+    }
+  }
+
+  private spawnRow(z: number) {
+    const kind = this.row++ % 5;
+    const maxLane = Math.floor(BENCHMARK_LANES / 2);
+
+    for (let lane = -maxLane; lane <= maxLane; lane++) {
+      const x = lane * LANE_WIDTH;
+      if (kind === 0) {
+        this.simulation.spawn(ObjectType.OBSTACLE, x, 0.4, z);
+        const gem = this.simulation.spawn(ObjectType.GEM, x, 2.0, z);
+        gem.color = '#c0c0c0';
+        gem.points = 50;
+      } else if (kind === 1) {
+        this.simulation.spawn(ObjectType.ALIEN, x, 0.6, z).hasFired = true; // Never turns into a charge
+      } else if (kind === 2) {
+        this.simulation.spawn(ObjectType.MONSTER, x, 0.6, z);
+      } else if (kind === 3) {
+        const gem = this.simulation.spawn(ObjectType.GEM, x, 1.2, z);
+        gem.color = '#ffd700';
+        gem.points = 100;
+      } else {
+        const index = (lane + maxLane) % BENCHMARK_WORD.length;
+        const letter = this.simulation.spawn(ObjectType.LETTER, x, 1.0, z);
+        letter.value = BENCHMARK_WORD[index];
+        letter.color = LETTER_COLORS[index % LETTER_COLORS.length];
+      }
+    }
+  }
+}
+
+export interface BenchmarkResult {
+  fps: number;
+  averageFrameMs: number;
+  p95FrameMs: number;
+  worstFrameMs: number;
+  drawCalls: number; // Average per frame
+  objects: number; // Average on the track
+}
+
+export type BenchmarkPhase = 'WARMUP' | 'RUNNING' | 'DONE';
+
+// Collects frames after the warm-up and summarises them once the run is over
+export class BenchmarkRecorder {
+  phase: BenchmarkPhase = 'WARMUP';
+  elapsed = 0;
+  result: BenchmarkResult | null = null;
+
+  private frameTimes: number[] = [];
+  private drawCalls = 0;
+  private objects = 0;
+
+  // Returns true when the phase changed
+  sample(delta: number, drawCalls: number, objects: number): boolean {
+    if (this.phase === 'DONE') return false;
+    this.elapsed += delta;
+
+    if (this.phase === 'WARMUP') {
+      if (this.elapsed < WARMUP) return false;
+      this.phase = 'RUNNING';
+      this.elapsed = 0;
+      return true;
+    }
+
+    this.frameTimes.push(delta * 1000);
+    this.drawCalls += drawCalls;
+    this.objects += objects;
+    if (this.elapsed < DURATION) return false;
+
+    const frames = this.frameTimes.length;
+    const sorted = [...this.frameTimes].sort((a, b) => a - b);
+    const averageFrameMs = sorted.reduce((sum, ms) => sum + ms, 0) / frames;
+    this.result = {
+      fps: Math.round(1000 / averageFrameMs),
+      averageFrameMs: Number(averageFrameMs.toFixed(2)),
+      p95FrameMs: Number(sorted[Math.floor(frames * 0.95)].toFixed(2)),
+      worstFrameMs: Number(sorted[frames - 1].toFixed(2)),
+      drawCalls: Math.round(this.drawCalls / frames),
+      objects: Math.round(this.objects / frames),
+    };
+    this.phase = 'DONE';
+    return true;
+  }
+}
+
+interface BenchmarkState {
+  phase: BenchmarkPhase;
+  result: BenchmarkResult | null;
+
+  report: (phase: BenchmarkPhase, result: BenchmarkResult | null) => void;
+}
+
+export const useBenchmark = create<BenchmarkState>()((set) => ({
+  phase: 'WARMUP',
+  result: null,
+  report: (phase, result) => set({ phase, result }),
+}));
@@ -0,0 +1,208 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+// Developer console commands. Only compiled in for development builds; see DEV_TOOLS_ENABLED.
+
+import { create } from 'zustand';
+import { useStore } from '../../store';
+import { GameStatus, ObjectType, LANE_WIDTH, OVERHEAD_HEIGHT, PowerUpKind, POWERUP_KINDS, POWERUP_COLORS } from '../../types';
+import { MAX_LEVEL, getLetterColor } from '../../levels';
+import { GameSimulation, getGemColor, getSpawnOdds } from './Simulation';
+import { useSettings } from './Settings';
+
+// Replaced at build time by vite.config.ts: 'true' for `vite`, 'false' for `vite build`
+export const DEV_TOOLS_ENABLED = process.env.DEV_TOOLS === 'true';
+
+export const DEV_CONSOLE_KEY = '`';
+const SPAWN_Z = -60; // Far enough ahead to react, close enough to see
+
+export const isDevConsoleFromUrl = () => new URLSearchParams(window.location.search).has('dev');
+
+interface DevToolsState {
+  isOpen: boolean;
+  cheatedRunId: number | null; // Runs touched by a command don't count for records or feats
+
+  setOpen: (isOpen: boolean) => void;
+  markCheated: () => void;
+}
+
+export const useDevTools = create<DevToolsState>()((set) => ({
+  isOpen: DEV_TOOLS_ENABLED && isDevConsoleFromUrl(),
+  cheatedRunId: null,
+  setOpen: (isOpen) => set({ isOpen: DEV_TOOLS_ENABLED && isOpen }),
+  markCheated: () => set({ cheatedRunId: useStore.getState().runId }),
+}));
+
+export const isCheatedRun = (runId: number) => useDevTools.getState().cheatedRunId === runId;
+
+const HELP = [
+  'god                  toggle god mode (hazards pass through)',
+  'level <n>            jump ahead to level n',
+  'letters [n]          grant the next n letters (default: the rest of the word)',
+  'score <n>            add n points',
+  'spawn <type> [lane]  spawn any object type, e.g. MONSTER or BRANCH (lane 0 is the centre)',
+  '                     POWERUP takes a kind after the lane: MAGNET, MULTIPLIER or SHIELD',
+  'speed <n>            set the run speed',
+  'hitboxes             toggle the hitbox overlay',
+].join('\n');
+
+const isInRun = () => {
+  const { status } = useStore.getState();
+  return status === GameStatus.PLAYING || status === GameStatus.PAUSED || status === GameStatus.SHOP;
+};
+
+// Places one object the way the spawner would set it up
+const spawnObject = (simulation: GameSimulation, type: ObjectType, lane: number, kind: PowerUpKind) => {
+  const { targetWord, collectedLetters } = useStore.getState();
+  const x = lane * LANE_WIDTH;
+
+  switch (type) {
+    case ObjectType.OBSTACLE:
+      simulation.spawn(type, x, 0.4, SPAWN_Z).color = '#546e7a';
+      break;
+    case ObjectType.GEM: {
+      const gem = simulation.spawn(type, x, 1.2, SPAWN_Z);
+      gem.points = 100;
+      gem.color = getGemColor(100);
+      break;
+    }
+    case ObjectType.LETTER: {
+      const index = targetWord.findIndex((_, i) => !collectedLetters.includes(i));
+      if (index < 0) return 'Every letter is already collected';
+      const letter = simulation.spawn(type, x, 1.0, SPAWN_Z);
+      letter.value = targetWord[index];
+      letter.targetIndex = index;
+      letter.color = getLetterColor(index);
+      break;
+    }
+    case ObjectType.ALIEN:
+    case ObjectType.MONSTER: {
+      const enemy = simulation.spawn(type, x, 0.6, SPAWN_Z);
+      enemy.color = type === ObjectType.MONSTER ? '#6a1b9a' : '#4e342e';
+      enemy.hasFired = false;
+      break;
+    }
+    case ObjectType.MISSILE:
+      simulation.spawn(type, x, 0.6, SPAWN_Z).color = '#5d4037';
+      break;
+    case ObjectType.BRANCH:
+    case ObjectType.VINE:
+      simulation.spawn(type, x, OVERHEAD_HEIGHT, SPAWN_Z);
+      break;
+    case ObjectType.SHOP_PORTAL:
+      simulation.spawn(type, 0, 0, SPAWN_Z);
+      break;
+    case ObjectType.POWERUP: {
+      const powerUp = simulation.spawn(type, x, 1.2, SPAWN_Z);
+      powerUp.value = kind;
+      powerUp.color = POWERUP_COLORS[kind];
+      break;
+    }
+    case ObjectType.BOSS_ORB:
+      simulation.spawn(type, x, 0.8, SPAWN_Z).color = '#76ff03';
+      break;
+    case ObjectType.WEAK_POINT:
+      if (!simulation.boss) return 'Weak points only count during the boss fight';
+      simulation.spawn(type, x, 1.2, SPAWN_Z).color = '#ffea00';
+      break;
+    case ObjectType.SPEAR:
+      return 'Spears are thrown, not spawned';
+  }
+  return `Spawned ${type} in lane ${lane}`;
+};
+
+const percent = (chance: number) => `${Math.round(chance * 100)}%`;
+
+// What the spawner rolls per row on this level, while no letter is due
+export const getSpawnOddsLabel = (level: number) => {
+  const odds = getSpawnOdds(level);
+  const hazards = odds.hazards.map(h => `${h.type} ${percent(h.chance)} (up to ${h.maxCount})`).join(', ');
+  return `ROW: EMPTY ${percent(odds.empty)}, GEM ${percent(odds.gem)}, POWER-UP ${percent(odds.powerUp)}, ${hazards}; GEM OVER ROCK ${percent(odds.gemOverRock)}`;
+};
+
+// Runs one console line; returns what to print
+export const runDevCommand = (simulation: GameSimulation, line: string): string => {
+  const [command, ...args] = line.trim().split(/\s+/);
+  const store = useStore.getState();
+  const number = (index: number) => Number(args[index]);
+
+  switch (command.toLowerCase()) {
+    case '':
+      return '';
+
+    case 'help':
+      return HELP;
+
+    case 'god':
+      simulation.godMode = !simulation.godMode;
+      if (simulation.godMode) useDevTools.getState().markCheated();
+      return `God mode ${simulation.godMode ? 'on' : 'off'}`;
+
+    case 'hitboxes': {
+      const showHitboxes = !useSettings.getState().showHitboxes;
+      useSettings.getState().update({ showHitboxes });
+      return `Hitbox overlay ${showHitboxes ? 'on' : 'off'}`;
+    }
+
+    case 'level': {
+      if (!isInRun()) return 'Start a run first';
+      const level = number(0);
+      if (!Number.isInteger(level) || level < 1 || level > MAX_LEVEL) return `Level must be 1-${MAX_LEVEL}`;
+      if (level <= store.level) return `Already at level ${store.level}; levels only go forward`;
+      useDevTools.getState().markCheated();
+      while (useStore.getState().level < level) useStore.getState().advanceLevel();
+      return `Jumped to level ${level}`;
+    }
+
+    case 'letters': {
+      if (!isInRun()) return 'Start a run first';
+      const missing = store.targetWord.map((_, i) => i).filter(i => !store.collectedLetters.includes(i));
+      const count = args.length > 0 ? number(0) : missing.length;
+      if (!Number.isInteger(count) || count < 1) return 'Count must be a positive whole number';
+      useDevTools.getState().markCheated();
+      // The last letter can finish the level, which resets the word
+      const level = store.level;
+      missing.slice(0, count).forEach(index => {
+        if (useStore.getState().level === level) useStore.getState().collectLetter(index);
+      });
+      return `Granted ${Math.min(count, missing.length)} letter(s)`;
+    }
+
+    case 'score': {
+      if (!isInRun()) return 'Start a run first';
+      const amount = number(0);
+      if (!Number.isFinite(amount)) return 'Usage: score <n>';
+      useDevTools.getState().markCheated();
+      store.addScore(amount);
+      return `Score is now ${useStore.getState().score}`;
+    }
+
+    case 'spawn': {
+      if (!isInRun()) return 'Start a run first';
+      const type = args[0]?.toUpperCase() as ObjectType;
+      if (!Object.values(ObjectType).includes(type)) return `Unknown type; one of ${Object.values(ObjectType).join(', ')}`;
+      const maxLane = Math.floor(store.laneCount / 2);
+      const lane = args.length > 1 ? number(1) : simulation.player.lane;
+      if (!Number.isInteger(lane) || Math.abs(lane) > maxLane) return `Lane must be ${-maxLane} to ${maxLane}`;
+      const kind = (args[2]?.toUpperCase() ?? 'MAGNET') as PowerUpKind;
+      if (!POWERUP_KINDS.includes(kind)) return `Unknown power-up; one of ${POWERUP_KINDS.join(', ')}`;
+      useDevTools.getState().markCheated();
+      return spawnObject(simulation, type, lane, kind);
+    }
+
+    case 'speed': {
+      if (!isInRun()) return 'Start a run first';
+      const speed = number(0);
+      if (!(speed >= 0)) return 'Usage: speed <n>';
+      useDevTools.getState().markCheated();
+      useStore.setState({ speed });
+      return `Speed set to ${speed}`;
+    }
+
+    default:
+      return `Unknown command "${command}". Type help for the list.`;
+  }
+};
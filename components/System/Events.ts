@@ -0,0 +1,79 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { GameStatus, ObjectType, PowerUpKind } from '../../types';
+
+type Position = [number, number, number];
+
+// Everything the simulation reports. Object-related events carry the object's type,
+// where it was, and a value: points gained or lost, a letter's index, a level number.
+export type GameEvent =
+  | { type: 'jump'; isDouble: boolean }
+  | { type: 'slide' }
+  | { type: 'hit'; objectType: ObjectType; position: Position; value: number; isBlocked: boolean }
+  | { type: 'collect'; objectType: ObjectType; position: Position; value: number; color?: string }
+  | { type: 'letter'; objectType: ObjectType.LETTER; position: Position; value: number; color?: string }
+  | { type: 'charge'; objectType: ObjectType.MISSILE; position: Position } // An idle boar starts charging
+  | { type: 'powerup'; objectType: ObjectType.POWERUP; position: Position; kind: PowerUpKind; value: number; color?: string } // Seconds it lasts
+  | { type: 'throw'; position: Position }
+  | { type: 'kill'; objectType: ObjectType; position: Position; value: number; color?: string } // Speared, value is the bounty
+  | { type: 'spear-blocked'; objectType: ObjectType; position: Position }
+  | { type: 'near-miss'; objectType: ObjectType; position: Position; value: number } // A hazard just past in the next lane, value is the chain after it
+  | { type: 'combo-end'; value: number } // Chain lapsed or broken by a hit, value is how long it got
+  | { type: 'level-up'; value: number }
+  | { type: 'boss-start' }
+  | { type: 'boss-telegraph'; lanes: number[]; value: number } // Lanes about to be hit, seconds of warning
+  | { type: 'boss-attack'; lanes: number[]; position: Position } // Orbs away, from where the boss stands
+  | { type: 'boss-hit'; position: Position; value: number } // A weak point taken, value is the health left
+  | { type: 'boss-phase'; value: number } // The phase it just entered
+  | { type: 'boss-defeated'; position: Position; value: number } // Victory bonus
+  | { type: 'shop-enter'; position: Position }
+  | { type: 'ability'; value: number } // Seconds of immortality
+  | { type: 'death'; objectType: ObjectType; position: Position; value: number } // Final score
+  | { type: 'run-end'; status: GameStatus.GAME_OVER | GameStatus.VICTORY };
+
+export type GameEventType = GameEvent['type'];
+export type GameEventOf<T extends GameEventType> = Extract<GameEvent, { type: T }>;
+
+type Handler = (event: GameEvent) => void;
+
+// In-process pub/sub. Each GameSimulation owns one, so separate game instances never hear each other.
+export class GameEventBus {
+  private handlers = new Map<GameEventType, Set<Handler>>();
+  private anyHandlers = new Set<Handler>();
+
+  // Returns the unsubscribe function, so it can be handed straight back from a useEffect
+  on<T extends GameEventType>(type: T, handler: (event: GameEventOf<T>) => void): () => void {
+    let set = this.handlers.get(type);
+    if (!set) {
+      set = new Set();
+      this.handlers.set(type, set);
+    }
+    const h = handler as Handler;
+    set.add(h);
+    return () => {
+      set!.delete(h);
+    };
+  }
+
+  // Every event, e.g. for analytics or debugging
+  onAny(handler: Handler): () => void {
+    this.anyHandlers.add(handler);
+    return () => {
+      this.anyHandlers.delete(handler);
+    };
+  }
+
+  emit(event: GameEvent) {
+    this.handlers.get(event.type)?.forEach(handler => handler(event));
+    this.anyHandlers.forEach(handler => handler(event));
+  }
+
+  clear() {
+    this.handlers.clear();
+    this.anyHandlers.clear();
+  }
+}
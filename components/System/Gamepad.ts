@@ -0,0 +1,168 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { useEffect, useState } from 'react';
+import { useStore } from '../../store';
+import { GameStatus } from '../../types';
+import type { GameSimulation } from './Simulation';
+import { triggerAction } from './Input';
+
+// Buttons we care about, named by position on the "standard" Gamepad API mapping
+export type PadButton = 'LEFT' | 'RIGHT' | 'UP' | 'DOWN' | 'SOUTH' | 'EAST' | 'WEST' | 'SHOULDER' | 'START';
+
+const PAD_BUTTONS: PadButton[] = ['LEFT', 'RIGHT', 'UP', 'DOWN', 'SOUTH', 'EAST', 'WEST', 'SHOULDER', 'START'];
+
+const STANDARD_BUTTONS: Record<PadButton, number[]> = {
+  UP: [12],
+  DOWN: [13],
+  LEFT: [14],
+  RIGHT: [15],
+  SOUTH: [0], // A / Cross
+  EAST: [1], // B / Circle
+  WEST: [2], // X / Square
+  SHOULDER: [4, 5], // LB / RB
+  START: [9],
+};
+
+// Stick hysteresis: push past PRESS to trigger, return inside RELEASE to re-arm
+const STICK_PRESS = 0.6;
+const STICK_RELEASE = 0.3;
+
+const isButtonDown = (pad: Gamepad, indices: number[]) => {
+  return indices.some(i => pad.buttons[i]?.pressed);
+};
+
+const isStickDown = (pad: Gamepad, button: PadButton, wasDown: boolean) => {
+  const limit = wasDown ? STICK_RELEASE : STICK_PRESS;
+  const x = pad.axes[0] ?? 0;
+  const y = pad.axes[1] ?? 0;
+  if (button === 'LEFT') return x < -limit;
+  if (button === 'RIGHT') return x > limit;
+  if (button === 'UP') return y < -limit;
+  if (button === 'DOWN') return y > limit;
+  return false;
+};
+
+// Polls every connected pad once per animation frame and reports fresh presses only
+export class GamepadPoller {
+  private held = new Set<string>();
+  private frame = 0;
+  private onPress: (button: PadButton) => void;
+
+  constructor(onPress: (button: PadButton) => void) {
+    this.onPress = onPress;
+  }
+
+  start() {
+    const loop = () => {
+      this.poll();
+      this.frame = requestAnimationFrame(loop);
+    };
+    this.frame = requestAnimationFrame(loop);
+  }
+
+  stop() {
+    cancelAnimationFrame(this.frame);
+    this.held.clear();
+  }
+
+  private poll() {
+    const pads = navigator.getGamepads ? navigator.getGamepads() : [];
+    for (const pad of pads) {
+      if (!pad || !pad.connected) continue;
+
+      for (const button of PAD_BUTTONS) {
+        const key = `${pad.index}:${button}`;
+        const wasDown = this.held.has(key);
+        const isDown = isButtonDown(pad, STANDARD_BUTTONS[button]) || isStickDown(pad, button, wasDown);
+
+        if (isDown && !wasDown) {
+          this.held.add(key);
+          this.onPress(button);
+        } else if (!isDown && wasDown) {
+          this.held.delete(key);
+        }
+      }
+    }
+  }
+}
+
+// Menus: the d-pad walks through the visible buttons, SOUTH presses the focused one
+const moveMenuFocus = (step: number) => {
+  const buttons = Array.from(document.querySelectorAll<HTMLButtonElement>('button:not([disabled])'))
+    .filter(b => b.offsetParent !== null);
+  if (buttons.length === 0) return;
+
+  const current = buttons.indexOf(document.activeElement as HTMLButtonElement);
+  const next = current === -1 ? 0 : (current + step + buttons.length) % buttons.length;
+  buttons[next].focus();
+};
+
+const handlePadPress = (button: PadButton, simulation: GameSimulation) => {
+  const { status, pauseGame, resumeGame } = useStore.getState();
+  document.body.classList.add('gamepad-active');
+
+  if (status === GameStatus.PLAYING) {
+    if (button === 'START') {
+      pauseGame();
+      return;
+    }
+    if (button === 'LEFT') triggerAction(simulation, 'MOVE_LEFT');
+    else if (button === 'RIGHT') triggerAction(simulation, 'MOVE_RIGHT');
+    else if (button === 'SOUTH') triggerAction(simulation, 'JUMP');
+    else if (button === 'DOWN' || button === 'EAST') triggerAction(simulation, 'SLIDE');
+    else if (button === 'WEST') triggerAction(simulation, 'THROW');
+    else if (button === 'SHOULDER') triggerAction(simulation, 'ABILITY');
+    return;
+  }
+
+  if (status === GameStatus.PAUSED && (button === 'START' || button === 'EAST')) {
+    resumeGame();
+    return;
+  }
+
+  if (button === 'UP' || button === 'LEFT') moveMenuFocus(-1);
+  else if (button === 'DOWN' || button === 'RIGHT') moveMenuFocus(1);
+  else if (button === 'SOUTH') {
+    const focused = document.activeElement;
+    if (focused instanceof HTMLButtonElement) focused.click();
+    else moveMenuFocus(0);
+  }
+};
+
+// Runs the poller while mounted and tracks hot-plugged controllers for the HUD indicator
+export const useGamepadInput = (simulation: GameSimulation) => {
+  const [connected, setConnected] = useState<string[]>([]);
+
+  useEffect(() => {
+    const refresh = () => {
+      const pads = navigator.getGamepads ? navigator.getGamepads() : [];
+      setConnected(pads.filter((p): p is Gamepad => !!p && p.connected).map(p => p.id));
+    };
+    // Focus rings only while the pad is driving the menus
+    const clearPadFocus = () => document.body.classList.remove('gamepad-active');
+    const handleDisconnect = () => {
+      refresh();
+      clearPadFocus();
+    };
+
+    const poller = new GamepadPoller(button => handlePadPress(button, simulation));
+    poller.start();
+    refresh();
+
+    window.addEventListener('gamepadconnected', refresh);
+    window.addEventListener('gamepaddisconnected', handleDisconnect);
+    window.addEventListener('pointerdown', clearPadFocus);
+    return () => {
+      poller.stop();
+      window.removeEventListener('gamepadconnected', refresh);
+      window.removeEventListener('gamepaddisconnected', handleDisconnect);
+      window.removeEventListener('pointerdown', clearPadFocus);
+    };
+  }, [simulation]);
+
+  return connected;
+};
@@ -0,0 +1,156 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { describe, it, expect } from 'vitest';
+import { createHeadlessGame, runHeadless } from './Headless';
+import { FIXED_DT, GameSimulation } from './Simulation';
+import { GameEvent } from './Events';
+import { replay } from './Replay';
+import { MAX_LEVEL } from '../../levels';
+import { GameStatus, ObjectType, LANE_WIDTH, BOSS_MAX_HEALTH, SCORE_BOSS_DEFEAT } from '../../types';
+
+type HeadlessGame = ReturnType<typeof createHeadlessGame>;
+
+// Steps until the predicate holds, returning every event along the way
+const stepUntil = ({ simulation }: HeadlessGame, isDone: () => boolean, maxTicks = 120): GameEvent[] => {
+  const events: GameEvent[] = [];
+  for (let tick = 0; tick < maxTicks && !isDone(); tick++) {
+    events.push(...simulation.step(FIXED_DT));
+  }
+  return events;
+};
+
+// The first step resets the simulation for the new run, so anything placed by hand goes in after it
+const startGame = (seed: number): HeadlessGame => {
+  const game = createHeadlessGame(seed);
+  game.simulation.step(FIXED_DT);
+  return game;
+};
+
+// Drops a letter just ahead of the player, in their lane
+const placeLetter = (simulation: GameSimulation, index: number) => {
+  const letter = simulation.spawn(ObjectType.LETTER, simulation.player.x, 1.0, -1);
+  letter.targetIndex = index;
+  return letter;
+};
+
+const describeTrack = (simulation: GameSimulation) =>
+  simulation.objects.map(obj => `${obj.type}@${obj.position.map(n => n.toFixed(3)).join(',')}`);
+
+describe('headless game', () => {
+  it('collects a letter the player runs into', () => {
+    const game = startGame(1);
+    placeLetter(game.simulation, 0);
+
+    const events = stepUntil(game, () => game.store.getState().collectedLetters.length > 0);
+
+    expect(game.store.getState().collectedLetters).toEqual([0]);
+    expect(events).toContainEqual(expect.objectContaining({ type: 'letter', value: 0 }));
+  });
+
+  it('advances a level once the whole word is spelled', () => {
+    const game = startGame(1);
+    const { targetWord } = game.store.getState();
+
+    targetWord.forEach((_, index) => {
+      placeLetter(game.simulation, index);
+      stepUntil(game, () => game.store.getState().collectedLetters.includes(index) || game.store.getState().level > 1);
+    });
+    expect(game.store.getState().level).toBe(2);
+    expect(game.store.getState().collectedLetters).toEqual([]);
+
+    const events = game.simulation.step(FIXED_DT);
+    expect(events).toContainEqual({ type: 'level-up', value: 2 });
+  });
+
+  it('takes a life per hit and ends the run on the last one', () => {
+    const game = startGame(1);
+    const { lives } = game.store.getState();
+    const events: GameEvent[] = [];
+
+    for (let hit = 1; hit <= lives; hit++) {
+      game.simulation.spawn(ObjectType.OBSTACLE, game.simulation.player.x, 0.4, -1);
+      events.push(...stepUntil(game, () => game.store.getState().hitsTaken === hit));
+      expect(game.store.getState().lives).toBe(lives - hit);
+    }
+
+    const state = game.store.getState();
+    expect(state.status).toBe(GameStatus.GAME_OVER);
+    expect(state.lastHitBy).toBe(ObjectType.OBSTACLE);
+    expect(events.filter(event => event.type === 'hit')).toHaveLength(lives);
+    expect(events).toContainEqual(expect.objectContaining({ type: 'death', objectType: ObjectType.OBSTACLE }));
+    expect(events).toContainEqual({ type: 'run-end', status: GameStatus.GAME_OVER });
+
+    // Nothing moves once the run is over
+    expect(game.simulation.step(FIXED_DT)).toEqual([]);
+  });
+
+  it('counts a boar that charges past in the next lane as one near miss', () => {
+    const game = startGame(1);
+    const { simulation } = game;
+    simulation.spawn(ObjectType.ALIEN, simulation.player.x + LANE_WIDTH, 0.6, -20).hasFired = false;
+
+    const events = stepUntil(game, () => simulation.objects.every(obj => obj.type !== ObjectType.ALIEN || obj.position[2] > 1), 300);
+
+    expect(events.filter(event => event.type === 'charge')).toHaveLength(1);
+    expect(events.filter(event => event.type === 'near-miss')).toEqual([
+      expect.objectContaining({ objectType: ObjectType.MISSILE, value: 1 })
+    ]);
+  });
+
+  it('spawns the same track for the same seed', () => {
+    const first = startGame(42);
+    const second = startGame(42);
+    const other = startGame(7);
+
+    for (let tick = 0; tick < 600; tick++) {
+      [first, second, other].forEach(game => game.simulation.step(FIXED_DT));
+    }
+
+    expect(describeTrack(first.simulation).length).toBeGreaterThan(0);
+    expect(describeTrack(second.simulation)).toEqual(describeTrack(first.simulation));
+    expect(describeTrack(other.simulation)).not.toEqual(describeTrack(first.simulation));
+  });
+
+  it('wins the run once the boss runs out of health', () => {
+    const game = startGame(1);
+    const { store, simulation } = game;
+    simulation.godMode = true; // Keeps the boss's attacks out of the way
+
+    // Skip to the last level and spell its word, which calls in the boss
+    while (store.getState().level < MAX_LEVEL) store.getState().advanceLevel();
+    store.getState().targetWord.forEach((_, index) => store.getState().collectLetter(index));
+    const events = stepUntil(game, () => simulation.boss !== null);
+    const score = store.getState().score;
+
+    for (let hit = 1; hit <= BOSS_MAX_HEALTH; hit++) {
+      simulation.spawn(ObjectType.WEAK_POINT, simulation.player.x, 1.2, -1);
+      events.push(...stepUntil(game, () => (simulation.boss?.health ?? 0) === BOSS_MAX_HEALTH - hit));
+    }
+
+    expect(store.getState().status).toBe(GameStatus.VICTORY);
+    expect(store.getState().score).toBeGreaterThanOrEqual(score + SCORE_BOSS_DEFEAT);
+    expect(simulation.boss).toBeNull();
+    expect(events.filter(event => event.type === 'boss-hit')).toHaveLength(BOSS_MAX_HEALTH);
+    expect(events).toContainEqual({ type: 'boss-start' });
+    expect(events).toContainEqual(expect.objectContaining({ type: 'boss-defeated', value: SCORE_BOSS_DEFEAT }));
+    expect(events).toContainEqual({ type: 'run-end', status: GameStatus.VICTORY });
+  });
+
+  it('plays out a whole run identically for the same seed', () => {
+    const jumper = (simulation: GameSimulation) => (Math.round(simulation.time / FIXED_DT) % 90 === 0 ? ['JUMP' as const] : []);
+
+    expect(runHeadless(42, jumper, 120)).toEqual(runHeadless(42, jumper, 120));
+  });
+
+  it('leaves the browser replay log alone', () => {
+    const log = replay.getLog();
+    runHeadless(42, () => ['JUMP'], 10);
+
+    expect(replay.getLog()).toBe(log);
+    expect(log.inputs).toEqual([]);
+  });
+});
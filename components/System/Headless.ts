@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+// Runs the game without a browser: a vanilla zustand store plus GameSimulation.
+// Meant for balancing sweeps and tests under Node.
+
+import { createStore } from 'zustand/vanilla';
+import { createGameState, GameState } from '../../gameState';
+import { GameStatus } from '../../types';
+import { GameSimulation, FIXED_DT } from './Simulation';
+import type { InputAction } from '../../types';
+
+// Decides the inputs for the next tick, e.g. a scripted bot or a recorded replay
+export type InputPolicy = (simulation: GameSimulation, state: GameState) => InputAction[];
+
+export interface HeadlessRunResult {
+  seed: number;
+  status: GameStatus;
+  score: number;
+  level: number;
+  distance: number;
+  gemsCollected: number;
+  time: number;
+}
+
+export const createHeadlessGame = (seed: number) => {
+  const store = createStore<GameState>()(createGameState());
+  const simulation = new GameSimulation(store);
+  store.getState().startGame(seed);
+  return { store, simulation };
+};
+
+export const runHeadless = (
+  seed: number,
+  policy: InputPolicy = () => [],
+  maxTime = 600
+): HeadlessRunResult => {
+  const { store, simulation } = createHeadlessGame(seed);
+
+  let ticks = 0;
+  const maxTicks = Math.ceil(maxTime / FIXED_DT);
+
+  while (ticks < maxTicks) {
+    const state = store.getState();
+    if (state.status === GameStatus.GAME_OVER || state.status === GameStatus.VICTORY) break;
+
+    // No one to shop headless: walk straight through the trader
+    if (state.status === GameStatus.SHOP) {
+      state.closeShop();
+      continue;
+    }
+
+    simulation.step(FIXED_DT, policy(simulation, state));
+    ticks++;
+  }
+
+  const final = store.getState();
+  return {
+    seed,
+    status: final.status,
+    score: final.score,
+    level: final.level,
+    distance: Math.floor(simulation.distanceTraveled),
+    gemsCollected: final.gemsCollected,
+    time: simulation.time
+  };
+};
@@ -0,0 +1,45 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { describe, it, expect } from 'vitest';
+import { sweepHit, PLAYER_HITBOXES, OBJECT_HITBOXES } from './Hitboxes';
+import { ObjectType, LANE_WIDTH, OVERHEAD_HEIGHT } from '../../types';
+
+const running = PLAYER_HITBOXES.RUNNING;
+const rock = OBJECT_HITBOXES[ObjectType.OBSTACLE];
+const boar = OBJECT_HITBOXES[ObjectType.ALIEN];
+const branch = OBJECT_HITBOXES[ObjectType.BRANCH];
+
+describe('sweepHit', () => {
+  it('catches an object that passes straight through the player in one tick', () => {
+    // Neither end of the move overlaps the player, only the path between them does
+    expect(sweepHit(running, [0, 0, 0], boar, [0, 0.6, 3], 3)).toBe(false);
+    expect(sweepHit(running, [0, 0, 0], boar, [0, 0.6, -3], -3)).toBe(false);
+    expect(sweepHit(running, [0, 0, 0], boar, [0, 0.6, 3], -3)).toBe(true);
+  });
+
+  it('catches an object that ends its move overlapping the player', () => {
+    expect(sweepHit(running, [0, 0, 0], rock, [0, 0.4, 0.5], 0.4)).toBe(true);
+  });
+
+  it('misses an object that has not reached the player yet', () => {
+    expect(sweepHit(running, [0, 0, 0], rock, [0, 0.4, -2], -2.5)).toBe(false);
+  });
+
+  it('misses an object in the next lane', () => {
+    expect(sweepHit(running, [0, 0, 0], boar, [LANE_WIDTH, 0.6, 3], -3)).toBe(false);
+  });
+
+  it('misses a rock passing beneath a jumping player', () => {
+    expect(sweepHit(PLAYER_HITBOXES.JUMPING, [0, 1.5, 0], rock, [0, 0.4, 3], -3)).toBe(false);
+    expect(sweepHit(PLAYER_HITBOXES.JUMPING, [0, 0.5, 0], rock, [0, 0.4, 3], -3)).toBe(true);
+  });
+
+  it('only lets a ducking player under a branch', () => {
+    expect(sweepHit(running, [0, 0, 0], branch, [0, OVERHEAD_HEIGHT, 0.2], -0.2)).toBe(true);
+    expect(sweepHit(PLAYER_HITBOXES.DUCKING, [0, 0, 0], branch, [0, OVERHEAD_HEIGHT, 0.2], -0.2)).toBe(false);
+  });
+});
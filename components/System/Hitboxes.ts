@@ -0,0 +1,105 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+// Collision shapes for every track object type and player pose. Capsules always stand upright,
+// so every pair of shapes has an exact overlap test along the track.
+
+import { ObjectType } from '../../types';
+
+type Vec3 = [number, number, number];
+
+export type Hitbox =
+  | { shape: 'AABB'; offset: Vec3; halfSize: Vec3 }
+  | { shape: 'CAPSULE'; offset: Vec3; radius: number; halfHeight: number }; // halfHeight: centre to the end of the straight part
+
+export type PlayerPose = 'RUNNING' | 'JUMPING' | 'SPINNING' | 'DUCKING';
+
+// Offsets are from the player's feet
+export const PLAYER_HITBOXES: Record<PlayerPose, Hitbox> = {
+  RUNNING: { shape: 'AABB', offset: [0, 0.9, 0], halfSize: [0.35, 0.9, 0.3] },
+  JUMPING: { shape: 'AABB', offset: [0, 0.9, 0], halfSize: [0.35, 0.9, 0.3] },
+  SPINNING: { shape: 'CAPSULE', offset: [0, 0.9, 0], radius: 0.55, halfHeight: 0.15 }, // Tucked into the double-jump flip
+  DUCKING: { shape: 'AABB', offset: [0, 0.45, 0.1], halfSize: [0.35, 0.45, 0.5] }, // Low enough to pass under overhead hazards
+};
+
+// Offsets are from the object's position. Hazard heights keep the old per-type bounds, so
+// what can be jumped over is unchanged.
+export const OBJECT_HITBOXES: Record<ObjectType, Hitbox> = {
+  [ObjectType.OBSTACLE]: { shape: 'AABB', offset: [0, 0.1, 0], halfSize: [0.55, 0.5, 0.6] },
+  [ObjectType.ALIEN]: { shape: 'AABB', offset: [0, 0, 0.15], halfSize: [0.45, 0.5, 0.75] },
+  [ObjectType.MISSILE]: { shape: 'AABB', offset: [0, 0.2, 0.15], halfSize: [0.45, 0.8, 0.75] },
+  [ObjectType.MONSTER]: { shape: 'CAPSULE', offset: [0, 0.2, 0], radius: 0.4, halfHeight: 0.4 },
+  [ObjectType.GEM]: { shape: 'AABB', offset: [0, 0, 0], halfSize: [0.5, 0.8, 0.5] },
+  [ObjectType.LETTER]: { shape: 'AABB', offset: [0, 0, 0], halfSize: [0.7, 0.9, 0.5] },
+  [ObjectType.SHOP_PORTAL]: { shape: 'AABB', offset: [0, 3, 0], halfSize: [50, 3, 0.5] }, // Spans every lane
+  // From just above a ducking head to beyond a double jump, so sliding is the only way under
+  [ObjectType.BRANCH]: { shape: 'AABB', offset: [0, 2.1, 0], halfSize: [0.9, 2.5, 0.25] },
+  [ObjectType.VINE]: { shape: 'AABB', offset: [0, 2.1, 0], halfSize: [0.7, 2.5, 0.2] },
+  [ObjectType.POWERUP]: { shape: 'AABB', offset: [0, 0, 0], halfSize: [0.6, 0.9, 0.5] },
+  [ObjectType.SPEAR]: { shape: 'AABB', offset: [0, 0, 0], halfSize: [0.15, 0.15, 0.9] },
+  [ObjectType.BOSS_ORB]: { shape: 'CAPSULE', offset: [0, 0, 0], radius: 0.6, halfHeight: 0 },
+  [ObjectType.WEAK_POINT]: { shape: 'AABB', offset: [0, 0, 0], halfSize: [0.7, 0.9, 0.5] },
+};
+
+type Box = Extract<Hitbox, { shape: 'AABB' }>;
+type Capsule = Extract<Hitbox, { shape: 'CAPSULE' }>;
+
+// Distance between two intervals given as centre and half-length; 0 when they overlap
+const getGap = (a: number, aHalf: number, b: number, bHalf: number) => Math.max(0, Math.abs(a - b) - aHalf - bHalf);
+
+// The capsule's axis has to come within its radius of the box
+const getBoxCapsuleReach = (box: Box, boxCentre: Vec3, capsule: Capsule, capsuleCentre: Vec3) => {
+  const dx = getGap(boxCentre[0], box.halfSize[0], capsuleCentre[0], 0);
+  const dy = getGap(boxCentre[1], box.halfSize[1], capsuleCentre[1], capsule.halfHeight);
+  const rest = capsule.radius * capsule.radius - dx * dx - dy * dy;
+  return rest < 0 ? -1 : box.halfSize[2] + Math.sqrt(rest);
+};
+
+// How far apart along z two shapes can be and still touch, given where they sit across and
+// up the track; -1 if they never touch at these x and y offsets
+const getReachZ = (a: Hitbox, aCentre: Vec3, b: Hitbox, bCentre: Vec3): number => {
+  if (a.shape === 'AABB' && b.shape === 'AABB') {
+    const dx = getGap(aCentre[0], a.halfSize[0], bCentre[0], b.halfSize[0]);
+    const dy = getGap(aCentre[1], a.halfSize[1], bCentre[1], b.halfSize[1]);
+    return dx > 0 || dy > 0 ? -1 : a.halfSize[2] + b.halfSize[2];
+  }
+
+  if (a.shape === 'CAPSULE' && b.shape === 'CAPSULE') {
+    const dx = Math.abs(aCentre[0] - bCentre[0]);
+    const dy = getGap(aCentre[1], a.halfHeight, bCentre[1], b.halfHeight);
+    const radius = a.radius + b.radius;
+    const rest = radius * radius - dx * dx - dy * dy;
+    return rest < 0 ? -1 : Math.sqrt(rest);
+  }
+
+  return a.shape === 'AABB'
+    ? getBoxCapsuleReach(a, aCentre, b as Capsule, bCentre)
+    : getBoxCapsuleReach(b as Box, bCentre, a, aCentre);
+};
+
+// Reused between tests; the simulation runs one every tick for every object near the player
+const aCentre: Vec3 = [0, 0, 0];
+const bCentre: Vec3 = [0, 0, 0];
+
+const setCentre = (target: Vec3, hitbox: Hitbox, position: Vec3) => {
+  target[0] = position[0] + hitbox.offset[0];
+  target[1] = position[1] + hitbox.offset[1];
+  target[2] = position[2] + hitbox.offset[2];
+};
+
+// Swept test along the track: true if `b` touched `a` anywhere on its way from `bFromZ` to
+// its current z. Objects can move a long way in one tick (a charging boar), so testing only
+// the end position would let them pass straight through.
+export const sweepHit = (a: Hitbox, aPosition: Vec3, b: Hitbox, bPosition: Vec3, bFromZ: number) => {
+  setCentre(aCentre, a, aPosition);
+  setCentre(bCentre, b, bPosition);
+  const reach = getReachZ(a, aCentre, b, bCentre);
+  if (reach < 0) return false;
+
+  const from = bFromZ + b.offset[2] - aCentre[2];
+  const to = bCentre[2] - aCentre[2];
+  return Math.min(from, to) <= reach && Math.max(from, to) >= -reach;
+};
@@ -0,0 +1,160 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { useEffect } from 'react';
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { useStore } from '../../store';
+import { GameStatus, InputAction, INPUT_ACTIONS } from '../../types';
+import type { GameSimulation } from './Simulation';
+
+export const BINDING_SLOTS = 2; // Keys per action
+
+// Swipes: minimum travel in px, and the strip at the bottom left to the on-screen buttons
+export const SWIPE_MIN_DISTANCE = 30;
+export const SWIPE_IGNORE_BOTTOM = 150;
+
+// Keys the HUD already uses for pause, so they can't be taken by an action
+export const RESERVED_KEYS = ['Escape', 'p', '`']; // Pause, and the dev console
+
+export const ACTION_LABELS: Record<InputAction, string> = {
+  MOVE_LEFT: 'MOVE LEFT',
+  MOVE_RIGHT: 'MOVE RIGHT',
+  JUMP: 'JUMP',
+  SLIDE: 'SLIDE',
+  THROW: 'THROW SPEAR',
+  ABILITY: 'SPIRIT SHIELD',
+};
+
+export type KeyBindings = Record<InputAction, string[]>;
+
+export const DEFAULT_BINDINGS: KeyBindings = {
+  MOVE_LEFT: ['ArrowLeft', 'a'],
+  MOVE_RIGHT: ['ArrowRight', 'd'],
+  JUMP: ['ArrowUp', 'w'],
+  SLIDE: ['ArrowDown', 's'],
+  THROW: ['f', 'x'],
+  ABILITY: [' ', 'Enter'],
+};
+
+// Letters are matched case-insensitively, so Shift or Caps Lock don't break a binding
+export const normalizeKey = (key: string) => key.length === 1 ? key.toLowerCase() : key;
+
+export const getKeyLabel = (key: string) => {
+  if (key === ' ') return 'SPACE';
+  if (key.startsWith('Arrow')) return key.slice(5).toUpperCase();
+  return key.toUpperCase();
+};
+
+interface InputBindingsState {
+  bindings: KeyBindings;
+
+  // Binds a key to one slot of an action, taking it away from any other action
+  setBinding: (action: InputAction, slot: number, key: string) => void;
+  clearBinding: (action: InputAction, slot: number) => void;
+  resetBindings: () => void;
+}
+
+export const useInputBindings = create<InputBindingsState>()(
+  persist(
+    (set, get) => ({
+      bindings: DEFAULT_BINDINGS,
+
+      setBinding: (action, slot, key) => {
+        const normalized = normalizeKey(key);
+        if (RESERVED_KEYS.includes(normalized)) return;
+
+        const bindings = { ...get().bindings };
+        INPUT_ACTIONS.forEach(other => {
+          bindings[other] = bindings[other].map(k => k === normalized ? '' : k);
+        });
+        const keys = [...bindings[action]];
+        keys[slot] = normalized;
+        bindings[action] = keys;
+        set({ bindings });
+      },
+
+      clearBinding: (action, slot) => {
+        const { bindings } = get();
+        const keys = [...bindings[action]];
+        keys[slot] = '';
+        set({ bindings: { ...bindings, [action]: keys } });
+      },
+
+      resetBindings: () => set({ bindings: DEFAULT_BINDINGS }),
+    }),
+    {
+      name: 'indi-hunter-controls',
+      version: 3, // 2: SLIDE, 3: THROW
+      // Saved bindings keep their keys; actions added since get their defaults, unless a key is already taken
+      migrate: (persisted) => {
+        const bindings = { ...(persisted as { bindings: Partial<KeyBindings> }).bindings };
+        const taken = Object.values(bindings).flat();
+        INPUT_ACTIONS.forEach(action => {
+          bindings[action] ??= DEFAULT_BINDINGS[action].map(key => taken.includes(key) ? '' : key);
+        });
+        return { bindings: bindings as KeyBindings };
+      },
+    }
+  )
+);
+
+export const getActionForKey = (key: string): InputAction | null => {
+  const { bindings } = useInputBindings.getState();
+  const normalized = normalizeKey(key);
+  return INPUT_ACTIONS.find(action => bindings[action].includes(normalized)) ?? null;
+};
+
+export const getSwipeAction = (deltaX: number, deltaY: number): InputAction | null => {
+  if (Math.abs(deltaX) > Math.abs(deltaY) && Math.abs(deltaX) > SWIPE_MIN_DISTANCE) {
+    return deltaX > 0 ? 'MOVE_RIGHT' : 'MOVE_LEFT';
+  }
+  if (Math.abs(deltaY) > Math.abs(deltaX) && Math.abs(deltaY) > SWIPE_MIN_DISTANCE) {
+    return deltaY < 0 ? 'JUMP' : 'SLIDE';
+  }
+  return null;
+};
+
+// Single entry point for every device: actions only reach the simulation mid-run,
+// and never while a replay is feeding its own
+export const triggerAction = (simulation: GameSimulation, action: InputAction) => {
+  const { status, isReplay } = useStore.getState();
+  if (status !== GameStatus.PLAYING || isReplay) return;
+  simulation.queueInput(action);
+};
+
+// Keyboard bindings and pointer swipes (touch or mouse drag)
+export const useActionInput = (simulation: GameSimulation) => {
+  useEffect(() => {
+    let swipeStart: { x: number; y: number } | null = null;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const action = getActionForKey(e.key);
+      if (action) triggerAction(simulation, action);
+    };
+
+    const handlePointerDown = (e: PointerEvent) => {
+      // The on-screen buttons sit in the bottom strip and trigger their own actions
+      swipeStart = e.clientY > window.innerHeight - SWIPE_IGNORE_BOTTOM ? null : { x: e.clientX, y: e.clientY };
+    };
+
+    const handlePointerUp = (e: PointerEvent) => {
+      if (!swipeStart) return;
+      const action = getSwipeAction(e.clientX - swipeStart.x, e.clientY - swipeStart.y);
+      swipeStart = null;
+      if (action) triggerAction(simulation, action);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('pointerdown', handlePointerDown);
+    window.addEventListener('pointerup', handlePointerUp);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('pointerdown', handlePointerDown);
+      window.removeEventListener('pointerup', handlePointerUp);
+    };
+  }, [simulation]);
+};
@@ -0,0 +1,357 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+// Procedural tribal soundtrack, synthesised with the same oscillator approach as the SFX.
+// Any voice with a recording in the sound bank plays that instead.
+// A look-ahead scheduler queues notes on the AudioContext clock, so timing stays exact
+// even when the main thread stutters.
+
+import { RUN_SPEED_BASE } from '../../types';
+import type { SoundBank } from './SoundBank';
+
+export type MusicMode = 'SILENT' | 'RUN' | 'SHOP' | 'BOSS';
+export type Stinger = 'GAME_OVER' | 'VICTORY';
+
+// The bits of AudioController the sequencer needs
+interface AudioOutput {
+  ctx: AudioContext | null;
+  masterGain: GainNode | null;
+  bank: SoundBank;
+  init: () => void;
+}
+
+const LOOKAHEAD_MS = 25; // How often the scheduler wakes up
+const SCHEDULE_AHEAD = 0.1; // Seconds of notes queued per wake-up
+const STEPS_PER_BAR = 16; // Sixteenth notes
+
+export const RUN_BPM_RANGE: [number, number] = [96, 150];
+const SHOP_BPM = 84;
+const BOSS_BPM = 140; // Flat out, whatever the run speed
+const BPM_PER_SPEED_STEP = 30; // Extra bpm per RUN_SPEED_BASE of added speed
+const MUSIC_GAIN = 0.5; // Under the SFX
+
+// Each letter and level boost speeds the run up; the drums follow
+export const getRunTempo = (speed: number) => RUN_BPM_RANGE[0] + (speed / RUN_SPEED_BASE - 1) * BPM_PER_SPEED_STEP;
+
+// 'x' plays on that sixteenth, '.' rests
+const parsePattern = (pattern: string) => pattern.split('').map(c => c === 'x');
+
+const LOW_DRUM = parsePattern('x..x..x.x..x....');
+const HIGH_DRUM = parsePattern('....x.......x.x.');
+const SHAKER = parsePattern('x.x.x.x.x.x.x.x.');
+const BASS_STEPS = parsePattern('x..x..x...x.....');
+const ROLL = parsePattern('xxxxxxxxxxxxxxxx');
+const SHOP_ARP = parsePattern('x.x.x.x.x.x.x.x.');
+const BOSS_LOW_DRUM = parsePattern('x.x.x..xx.x.x..x');
+const BOSS_HIGH_DRUM = parsePattern('....x.......x.xx');
+const BOSS_BASS_STEPS = parsePattern('x.x.x.x.x.x.x.x.');
+
+// A minor pentatonic
+const BASS_NOTES = [55, 55, 65.41, 49]; // One root per bar: A1 A1 C2 G1
+const FLUTE_SCALE = [440, 523.25, 587.33, 659.25, 783.99]; // A4 C5 D5 E5 G5
+// C major pentatonic, warmer for the trader
+const SHOP_SCALE = [261.63, 293.66, 329.63, 392, 440, 523.25];
+// Creeping half steps around A for the boss
+const BOSS_BASS_NOTES = [55, 58.27, 55, 51.91]; // One root per bar: A1 Bb1 A1 Ab1
+const BOSS_CRY = [659.25, 0, 0, 0, 622.25, 0, 0, 0, 587.33, 0, 0, 0, 554.37, 0, 0, 0]; // E5 falling to C#5
+
+export class MusicSequencer {
+  mode: MusicMode = 'SILENT';
+  bpm = RUN_BPM_RANGE[0];
+  level = 1;
+  bossPhase = 1;
+
+  private output: AudioOutput;
+  private bus: GainNode | null = null; // All music
+  private intensityBus: GainNode | null = null; // Hazard stem, faded by proximity
+  private noiseBuffer: AudioBuffer | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private nextStepTime = 0;
+  private step = 0;
+  private bar = 0;
+  private melody: number[] = [];
+
+  constructor(output: AudioOutput) {
+    this.output = output;
+  }
+
+  setMode(mode: MusicMode) {
+    if (mode === this.mode) return;
+    this.mode = mode;
+    if (mode === 'SILENT') {
+      this.stop();
+    } else {
+      this.start();
+    }
+  }
+
+  // Tempo is picked up on the next sixteenth, so changes never jolt the groove
+  setTempo(bpm: number) {
+    this.bpm = Math.max(RUN_BPM_RANGE[0], Math.min(RUN_BPM_RANGE[1], bpm));
+  }
+
+  setLevel(level: number) {
+    this.level = level;
+  }
+
+  setBossPhase(phase: number) {
+    this.bossPhase = phase;
+  }
+
+  // 0 (nothing near) to 1 (hazard right ahead in the player's lane)
+  setIntensity(intensity: number) {
+    const ctx = this.output.ctx;
+    if (!ctx || !this.intensityBus) return;
+    this.intensityBus.gain.setTargetAtTime(Math.max(0, Math.min(1, intensity)), ctx.currentTime, 0.25);
+  }
+
+  // One-shot phrase that ends the music
+  playStinger(stinger: Stinger) {
+    this.setMode('SILENT');
+    const ctx = this.ensureGraph();
+    if (!ctx || !this.bus) return;
+
+    const t = ctx.currentTime + 0.05;
+    if (stinger === 'GAME_OVER') {
+      // Falling minor phrase over a last heavy drum
+      [440, 349.23, 293.66, 220].forEach((f, i) => this.flute(t + i * 0.28, f, 0.5, 0.22, this.bus!));
+      this.drum('drumLow', t + 1.1, 55, 0.9, 0.9, this.bus);
+    } else {
+      // Drum roll into a rising major arpeggio
+      for (let i = 0; i < 12; i++) this.drum('drumHigh', t + i * 0.06, 120 + i * 8, 0.12, 0.3 + i * 0.04, this.bus);
+      [440, 554.37, 659.25, 880, 1108.73].forEach((f, i) => this.flute(t + 0.8 + i * 0.14, f, 0.6, 0.2, this.bus!));
+      this.drum('drumLow', t + 0.8, 65, 0.8, 0.9, this.bus);
+    }
+  }
+
+  private ensureGraph(): AudioContext | null {
+    if (!this.output.ctx) this.output.init();
+    const { ctx, masterGain } = this.output;
+    if (!ctx || !masterGain) return null;
+
+    if (!this.bus) {
+      this.bus = ctx.createGain();
+      this.bus.gain.value = MUSIC_GAIN;
+      this.bus.connect(masterGain);
+
+      this.intensityBus = ctx.createGain();
+      this.intensityBus.gain.value = 0;
+      this.intensityBus.connect(this.bus);
+
+      const length = Math.floor(ctx.sampleRate * 0.1);
+      this.noiseBuffer = ctx.createBuffer(1, length, ctx.sampleRate);
+      const data = this.noiseBuffer.getChannelData(0);
+      for (let i = 0; i < length; i++) data[i] = Math.random() * 2 - 1;
+    }
+    return ctx;
+  }
+
+  private start() {
+    const ctx = this.ensureGraph();
+    if (!ctx) return;
+
+    this.step = 0;
+    this.bar = 0;
+    this.melody = [];
+    this.nextStepTime = ctx.currentTime + 0.05;
+    if (!this.timer) this.timer = setInterval(() => this.schedule(), LOOKAHEAD_MS);
+  }
+
+  private stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private schedule() {
+    const ctx = this.output.ctx;
+    if (!ctx) return;
+
+    // After a long stall (tab in background) skip ahead instead of bursting out old notes
+    if (this.nextStepTime < ctx.currentTime - SCHEDULE_AHEAD) {
+      this.nextStepTime = ctx.currentTime + 0.05;
+    }
+
+    while (this.nextStepTime < ctx.currentTime + SCHEDULE_AHEAD) {
+      if (this.mode === 'SHOP') this.playShopStep(this.step, this.nextStepTime);
+      else if (this.mode === 'BOSS') this.playBossStep(this.step, this.nextStepTime);
+      else this.playRunStep(this.step, this.nextStepTime);
+
+      const bpm = this.mode === 'SHOP' ? SHOP_BPM : this.mode === 'BOSS' ? BOSS_BPM : this.bpm;
+      this.nextStepTime += 60 / bpm / 4;
+      this.step = (this.step + 1) % STEPS_PER_BAR;
+      if (this.step === 0) this.bar++;
+    }
+  }
+
+  // Layers stack up with the level: drums, then bass, then flute
+  private playRunStep(step: number, t: number) {
+    const bus = this.bus!;
+    const stepLength = 60 / this.bpm / 4;
+
+    if (LOW_DRUM[step]) this.drum('drumLow', t, 70, 0.35, 0.7, bus);
+    if (HIGH_DRUM[step]) this.drum('drumHigh', t, 160, 0.15, 0.4, bus);
+    if (SHAKER[step]) this.shaker(t, step % 4 === 0 ? 0.12 : 0.06, bus);
+
+    if (this.level >= 2 && BASS_STEPS[step]) {
+      this.bass(t, BASS_NOTES[this.bar % BASS_NOTES.length], stepLength * 2.5, 0.35, bus);
+    }
+
+    if (this.level >= 3) {
+      if (step === 0) this.melody = this.createPhrase();
+      const note = this.melody[step];
+      if (note) this.flute(t, note, stepLength * 2, 0.12, bus);
+    }
+
+    // Hazard stem: always playing, heard only as the intensity bus opens up
+    if (ROLL[step]) this.drum('drumHigh', t, step % 2 === 0 ? 120 : 95, 0.08, 0.35, this.intensityBus!);
+    if (step % 8 === 4) this.shaker(t, 0.2, this.intensityBus!);
+  }
+
+  private playShopStep(step: number, t: number) {
+    const bus = this.bus!;
+    const stepLength = 60 / SHOP_BPM / 4;
+
+    if (step === 0 || step === 8) this.drum('drumLow', t, 60, 0.5, 0.35, bus);
+    if (SHOP_ARP[step]) {
+      const index = (this.bar * 3 + step / 2) % SHOP_SCALE.length;
+      this.marimba(t, SHOP_SCALE[index], stepLength * 3, 0.18, bus);
+    }
+    if (step % 4 === 2) this.shaker(t, 0.04, bus);
+  }
+
+  // Heavier drums from the start; the bass joins in phase 2 and the flute cries in phase 3
+  private playBossStep(step: number, t: number) {
+    const bus = this.bus!;
+    const stepLength = 60 / BOSS_BPM / 4;
+
+    if (BOSS_LOW_DRUM[step]) this.drum('drumLow', t, 60, 0.4, 0.85, bus);
+    if (BOSS_HIGH_DRUM[step]) this.drum('drumHigh', t, 180, 0.12, 0.5, bus);
+    if (SHAKER[step]) this.shaker(t, step % 4 === 0 ? 0.14 : 0.08, bus);
+
+    if (this.bossPhase >= 2 && BOSS_BASS_STEPS[step]) {
+      this.bass(t, BOSS_BASS_NOTES[this.bar % BOSS_BASS_NOTES.length], stepLength * 1.5, 0.4, bus);
+    }
+
+    if (this.bossPhase >= 3 && BOSS_CRY[step]) {
+      this.flute(t, BOSS_CRY[step], stepLength * 3.5, 0.14, bus);
+    }
+
+    // Same hazard stem as the run, opened up by incoming attacks
+    if (ROLL[step]) this.drum('drumHigh', t, step % 2 === 0 ? 120 : 95, 0.08, 0.35, this.intensityBus!);
+    if (step % 8 === 4) this.shaker(t, 0.2, this.intensityBus!);
+  }
+
+  // One bar of flute: a few pentatonic notes, mostly stepwise
+  private createPhrase(): number[] {
+    const phrase: number[] = new Array(STEPS_PER_BAR).fill(0);
+    let degree = Math.floor(Math.random() * FLUTE_SCALE.length);
+    [0, 4, 6, 8, 12].forEach(step => {
+      if (Math.random() < 0.3) return;
+      degree = Math.max(0, Math.min(FLUTE_SCALE.length - 1, degree + Math.floor(Math.random() * 3) - 1));
+      phrase[step] = FLUTE_SCALE[degree];
+    });
+    return phrase;
+  }
+
+  // --- Voices ---
+
+  private drum(cue: 'drumLow' | 'drumHigh', t: number, freq: number, decay: number, volume: number, destination: AudioNode) {
+    if (this.output.bank.playSample(cue, destination, t, volume, freq)) return;
+    const ctx = this.output.ctx!;
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+
+    osc.type = 'sine';
+    osc.frequency.setValueAtTime(freq, t);
+    osc.frequency.exponentialRampToValueAtTime(freq * 0.5, t + decay);
+
+    gain.gain.setValueAtTime(volume, t);
+    gain.gain.exponentialRampToValueAtTime(0.001, t + decay);
+
+    osc.connect(gain);
+    gain.connect(destination);
+    osc.start(t);
+    osc.stop(t + decay);
+  }
+
+  private shaker(t: number, volume: number, destination: AudioNode) {
+    if (this.output.bank.playSample('shaker', destination, t, volume)) return;
+    const ctx = this.output.ctx!;
+    const noise = ctx.createBufferSource();
+    noise.buffer = this.noiseBuffer;
+
+    const filter = ctx.createBiquadFilter();
+    filter.type = 'highpass';
+    filter.frequency.value = 6000;
+
+    const gain = ctx.createGain();
+    gain.gain.setValueAtTime(volume, t);
+    gain.gain.exponentialRampToValueAtTime(0.001, t + 0.06);
+
+    noise.connect(filter);
+    filter.connect(gain);
+    gain.connect(destination);
+    noise.start(t);
+    noise.stop(t + 0.06);
+  }
+
+  private tone(t: number, freq: number, duration: number, type: OscillatorType, volume: number, destination: AudioNode) {
+    const ctx = this.output.ctx!;
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+
+    osc.type = type;
+    osc.frequency.setValueAtTime(freq, t);
+
+    gain.gain.setValueAtTime(0.001, t);
+    gain.gain.linearRampToValueAtTime(volume, t + 0.02);
+    gain.gain.exponentialRampToValueAtTime(0.001, t + duration);
+
+    osc.connect(gain);
+    gain.connect(destination);
+    osc.start(t);
+    osc.stop(t + duration);
+  }
+
+  private bass(t: number, freq: number, duration: number, volume: number, destination: AudioNode) {
+    if (this.output.bank.playSample('bass', destination, t, volume, freq, duration)) return;
+    this.tone(t, freq, duration, 'triangle', volume, destination);
+  }
+
+  // Breathy sine with a slow attack and a touch of vibrato
+  private flute(t: number, freq: number, duration: number, volume: number, destination: AudioNode) {
+    if (this.output.bank.playSample('flute', destination, t, volume, freq, duration)) return;
+    const ctx = this.output.ctx!;
+    const osc = ctx.createOscillator();
+    const vibrato = ctx.createOscillator();
+    const vibratoDepth = ctx.createGain();
+    const gain = ctx.createGain();
+
+    osc.type = 'sine';
+    osc.frequency.setValueAtTime(freq, t);
+    vibrato.frequency.value = 5;
+    vibratoDepth.gain.value = freq * 0.01;
+    vibrato.connect(vibratoDepth);
+    vibratoDepth.connect(osc.frequency);
+
+    gain.gain.setValueAtTime(0.001, t);
+    gain.gain.linearRampToValueAtTime(volume, t + 0.06);
+    gain.gain.exponentialRampToValueAtTime(0.001, t + duration);
+
+    osc.connect(gain);
+    gain.connect(destination);
+    osc.start(t);
+    vibrato.start(t);
+    osc.stop(t + duration);
+    vibrato.stop(t + duration);
+  }
+
+  private marimba(t: number, freq: number, duration: number, volume: number, destination: AudioNode) {
+    if (this.output.bank.playSample('marimba', destination, t, volume, freq, duration)) return;
+    this.tone(t, freq, duration, 'sine', volume, destination);
+    this.tone(t, freq * 4, duration * 0.25, 'sine', volume * 0.3, destination); // Woody overtone
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { GameObject, ObjectType } from '../../types';
+
+// Slots preallocated per simulation. A dense 9-lane stretch peaks well below this; the
+// renderer starts each of its instanced pools at this size and grows them along with it.
+export const OBJECT_POOL_SIZE = 256;
+
+// Recycles track objects instead of allocating one per spawn. Slot ids are stable for the
+// life of the pool, so an id is only unique among the objects on the track at the same time.
+export class ObjectPool {
+  private free: GameObject[] = [];
+  private size = 0;
+  private spawnCount = 0;
+
+  constructor(size = OBJECT_POOL_SIZE) {
+    for (let i = 0; i < size; i++) this.free.push(this.create());
+  }
+
+  // Every optional field is cleared; the caller sets the ones its type needs
+  acquire(type: ObjectType, x: number, y: number, z: number): GameObject {
+    // Grow rather than drop the spawn, which would change the run
+    const obj = this.free.pop() ?? this.create();
+    obj.type = type;
+    obj.spawnId = ++this.spawnCount;
+    obj.position[0] = x;
+    obj.position[1] = y;
+    obj.position[2] = z;
+    obj.active = true;
+    obj.value = undefined;
+    obj.color = undefined;
+    obj.targetIndex = undefined;
+    obj.points = undefined;
+    obj.hasFired = undefined;
+    return obj;
+  }
+
+  release(obj: GameObject) {
+    obj.active = false;
+    this.free.push(obj);
+  }
+
+  private create(): GameObject {
+    return { id: `slot-${this.size++}`, spawnId: 0, type: ObjectType.GEM, position: [0, 0, 0], active: false };
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { create } from 'zustand';
+import { useSettings } from './Settings';
+
+// Upper limits for one quality tier. They only ever cap the player's own settings.
+export interface QualityCaps {
+  name: string;
+  maxDpr: number;
+  bloom: boolean;
+  noise: boolean;
+  shadows: boolean;
+  environmentScale: number; // Share of trees, bushes, fireflies and fog patches drawn
+  particleScale: number; // Share of the particle pool bursts may use
+}
+
+// Cheapest wins first: grain and resolution, then shadows, bloom and scenery
+export const PERFORMANCE_TIERS: QualityCaps[] = [
+  { name: 'FULL', maxDpr: 2, bloom: true, noise: true, shadows: true, environmentScale: 1, particleScale: 1 },
+  { name: 'HIGH', maxDpr: 1.5, bloom: true, noise: false, shadows: true, environmentScale: 1, particleScale: 1 },
+  { name: 'MEDIUM', maxDpr: 1.25, bloom: true, noise: false, shadows: false, environmentScale: 0.75, particleScale: 0.5 },
+  { name: 'LOW', maxDpr: 1, bloom: false, noise: false, shadows: false, environmentScale: 0.5, particleScale: 0.5 },
+  { name: 'MINIMAL', maxDpr: 0.75, bloom: false, noise: false, shadows: false, environmentScale: 0.25, particleScale: 0.25 },
+];
+
+const SAMPLE_WINDOW = 1; // Seconds of frames averaged per decision
+const DOWNGRADE_FRAME_TIME = 1 / 50; // Slower than 50 fps on average: step down
+const UPGRADE_FRAME_TIME = 1 / 57; // Comfortably at 60 fps: candidate to step up
+const UPGRADE_WINDOWS = 5; // Good windows in a row before stepping up
+const MAX_UPGRADE_WINDOWS = 40;
+const MAX_FRAME_SAMPLE = 0.25; // Longer frames are hitches (tab switch, GC), not load
+
+// Decides tier changes from frame times. Stepping down is quick, stepping up is slow, and an
+// upgrade that immediately had to be undone makes the next one wait twice as long.
+export class FrameTimeGovernor {
+  tier = 0;
+  fps = 0;
+
+  private elapsed = 0;
+  private frames = 0;
+  private goodWindows = 0;
+  private requiredGoodWindows = UPGRADE_WINDOWS;
+  private windowsSinceUpgrade = Infinity;
+  private settling = false;
+
+  // Feeds one frame; returns true when the tier changed
+  sample(delta: number): boolean {
+    if (delta > MAX_FRAME_SAMPLE) return false;
+
+    this.elapsed += delta;
+    this.frames++;
+    if (this.elapsed < SAMPLE_WINDOW) return false;
+
+    const average = this.elapsed / this.frames;
+    this.fps = Math.round(1 / average);
+    this.elapsed = 0;
+    this.frames = 0;
+    this.windowsSinceUpgrade++;
+
+    // The window right after a change still carries the old tier's cost
+    if (this.settling) {
+      this.settling = false;
+      return false;
+    }
+
+    if (average > DOWNGRADE_FRAME_TIME && this.tier < PERFORMANCE_TIERS.length - 1) {
+      if (this.windowsSinceUpgrade <= 3) {
+        this.requiredGoodWindows = Math.min(this.requiredGoodWindows * 2, MAX_UPGRADE_WINDOWS);
+      }
+      return this.change(this.tier + 1);
+    }
+
+    if (average < UPGRADE_FRAME_TIME && this.tier > 0) {
+      this.goodWindows++;
+      if (this.goodWindows >= this.requiredGoodWindows) {
+        this.windowsSinceUpgrade = 0;
+        return this.change(this.tier - 1);
+      }
+    } else {
+      this.goodWindows = 0;
+    }
+    return false;
+  }
+
+  reset() {
+    this.tier = 0;
+    this.elapsed = 0;
+    this.frames = 0;
+    this.goodWindows = 0;
+    this.requiredGoodWindows = UPGRADE_WINDOWS;
+    this.windowsSinceUpgrade = Infinity;
+    this.settling = false;
+  }
+
+  private change(tier: number) {
+    this.tier = tier;
+    this.goodWindows = 0;
+    this.settling = true;
+    return true;
+  }
+}
+
+interface PerformanceState {
+  tier: number; // Index into PERFORMANCE_TIERS
+  fps: number; // Average of the last sample window
+
+  report: (tier: number, fps: number) => void;
+}
+
+export const usePerformance = create<PerformanceState>()((set) => ({
+  tier: 0,
+  fps: 0,
+  report: (tier, fps) => set({ tier, fps }),
+}));
+
+// Caps currently in force: the governor's tier, or none if the player turned adaptive quality off
+export const useQualityCaps = (): QualityCaps => {
+  const tier = usePerformance(state => state.tier);
+  const adaptiveQuality = useSettings(state => state.adaptiveQuality);
+  return PERFORMANCE_TIERS[adaptiveQuality ? tier : 0];
+};
@@ -0,0 +1,74 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+// Mulberry32: small, fast 32-bit PRNG. The same seed always yields the same sequence,
+// which is what makes a run (and its track) reproducible.
+export class SeededRandom {
+  readonly seed: number;
+  private state: number;
+
+  constructor(seed: number) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  // Position in the sequence, so a saved run can continue exactly where it left off
+  getState(): number {
+    return this.state;
+  }
+
+  setState(state: number) {
+    this.state = state >>> 0;
+  }
+
+  // Float in [0, 1), drop-in replacement for Math.random()
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  // Integer in [0, max)
+  int(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+
+  pick<T>(items: readonly T[]): T {
+    return items[this.int(items.length)];
+  }
+
+  // In-place Fisher-Yates shuffle
+  shuffle<T>(items: T[]): T[] {
+    for (let i = items.length - 1; i > 0; i--) {
+      const j = this.int(i + 1);
+      [items[i], items[j]] = [items[j], items[i]];
+    }
+    return items;
+  }
+}
+
+export const createSeed = () => Math.floor(Math.random() * 4294967296) >>> 0;
+
+// Everyone playing on the same calendar day (UTC) gets the same track
+export const getDailySeed = (date: Date = new Date()) => {
+  const key = date.toISOString().slice(0, 10); // YYYY-MM-DD
+  let hash = 2166136261; // FNV-1a
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+// Shared runs: ?seed=12345 in the URL
+export const getSeedFromUrl = (): number | undefined => {
+  const param = new URLSearchParams(window.location.search).get('seed');
+  if (param === null) return undefined;
+  const seed = Number(param);
+  return Number.isFinite(seed) ? seed >>> 0 : undefined;
+};
@@ -0,0 +1,102 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { GameState } from '../../gameState';
+import { useStore } from '../../store';
+import { GameStatus, ObjectType } from '../../types';
+
+const TOP_RUNS_LIMIT = 10;
+const HISTORY_LIMIT = 20;
+
+export interface RunRecord {
+  date: string; // ISO timestamp of when the run ended
+  seed: number;
+  word: string | null;
+  score: number;
+  level: number;
+  distance: number;
+  gems: number;
+  outcome: GameStatus.GAME_OVER | GameStatus.VICTORY;
+  causeOfDeath: ObjectType | null;
+}
+
+// Player-facing names for what ended a run
+export const CAUSE_LABELS: Partial<Record<ObjectType, string>> = {
+  [ObjectType.OBSTACLE]: 'ROCK',
+  [ObjectType.ALIEN]: 'BOAR',
+  [ObjectType.MISSILE]: 'CHARGING BOAR',
+  [ObjectType.MONSTER]: 'FOREST SPIRIT',
+  [ObjectType.BRANCH]: 'LOW BRANCH',
+  [ObjectType.VINE]: 'HANGING VINES',
+  [ObjectType.BOSS_ORB]: 'THE ELDER SPIRIT',
+};
+
+interface RecordsState {
+  topRuns: RunRecord[]; // Best scores first
+  history: RunRecord[]; // Most recent first
+
+  // Result of the run that just ended, for the end screens (not persisted)
+  lastRun: RunRecord | null;
+  isPersonalBest: boolean;
+
+  addRun: (run: RunRecord) => void;
+  clearLastRun: () => void;
+  clearRecords: () => void;
+}
+
+export const useRecords = create<RecordsState>()(
+  persist(
+    (set, get) => ({
+      topRuns: [],
+      history: [],
+      lastRun: null,
+      isPersonalBest: false,
+
+      addRun: (run) => {
+        const { topRuns, history } = get();
+        // Only beating an earlier best counts; the very first run has nothing to beat
+        const isPersonalBest = topRuns.length > 0 && run.score > topRuns[0].score;
+
+        set({
+          topRuns: [...topRuns, run].sort((a, b) => b.score - a.score).slice(0, TOP_RUNS_LIMIT),
+          history: [run, ...history].slice(0, HISTORY_LIMIT),
+          lastRun: run,
+          isPersonalBest
+        });
+      },
+
+      clearLastRun: () => set({ lastRun: null, isPersonalBest: false }),
+
+      clearRecords: () => set({ topRuns: [], history: [], lastRun: null, isPersonalBest: false }),
+    }),
+    {
+      name: 'indi-hunter-records',
+      version: 1,
+      partialize: (state) => ({ topRuns: state.topRuns, history: state.history }),
+    }
+  )
+);
+
+export const createRunRecord = (state: GameState): RunRecord => ({
+  date: new Date().toISOString(),
+  seed: state.seed,
+  word: state.runWord,
+  score: state.score,
+  level: state.level,
+  distance: state.distance,
+  gems: state.gemsCollected,
+  outcome: state.status === GameStatus.VICTORY ? GameStatus.VICTORY : GameStatus.GAME_OVER,
+  causeOfDeath: state.status === GameStatus.GAME_OVER ? state.lastHitBy : null,
+});
+
+// The end-screen result belongs to the run that set it, and runs that aren't recorded (replays,
+// dev console) never call addRun, so it's cleared as soon as another run starts.
+// Subscribes to the game store; returns the unsubscribe function.
+export const trackRunStarts = () => useStore.subscribe((state, prev) => {
+  if (state.runId !== prev.runId) useRecords.getState().clearLastRun();
+});
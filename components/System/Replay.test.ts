@@ -0,0 +1,112 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { describe, it, expect } from 'vitest';
+import { createStore } from 'zustand/vanilla';
+import { createGameState, GameState } from '../../gameState';
+import { ReplayController, ReplayLog, parseReplay } from './Replay';
+import { FIXED_DT, GameSimulation } from './Simulation';
+import { GameStatus, InputAction, ObjectType, LANE_WIDTH } from '../../types';
+
+const HEAL_COST = 100;
+const RUN_TICKS = 75 / FIXED_DT; // Long enough to reach a shop
+
+// A scripted player: steers for the next letter or shop portal
+const scriptedInputs = (simulation: GameSimulation): InputAction[] => {
+  const inputs: InputAction[] = [];
+  const target = simulation.objects
+    .filter(obj => (obj.type === ObjectType.LETTER || obj.type === ObjectType.SHOP_PORTAL) && obj.position[2] < 0)
+    .sort((a, b) => b.position[2] - a.position[2])[0];
+  if (target) {
+    const lane = Math.round(target.position[0] / LANE_WIDTH);
+    if (lane < simulation.player.lane) inputs.push('MOVE_LEFT');
+    if (lane > simulation.player.lane) inputs.push('MOVE_RIGHT');
+  }
+  return inputs;
+};
+
+// Drives a run tick by tick the way GameLoop and the shop screen do. Hazards pass through,
+// so the run lasts long enough to level up and visit the shop.
+const playRun = (controller: ReplayController, start: (state: GameState) => void, ticks: number) => {
+  const store = createStore<GameState>()(createGameState(controller));
+  const simulation = new GameSimulation(store);
+  simulation.godMode = true;
+  start(store.getState());
+
+  for (let tick = 0; tick < ticks; tick++) {
+    const state = store.getState();
+    if (state.status === GameStatus.GAME_OVER || state.status === GameStatus.VICTORY) break;
+
+    if (state.status === GameStatus.SHOP) {
+      if (controller.isPlayback) {
+        controller.nextShopVisit().forEach(id => state.buyItem(id, HEAL_COST));
+      } else {
+        controller.beginShopVisit();
+        if (state.buyItem('HEAL', HEAL_COST)) controller.recordPurchase('HEAL');
+      }
+      state.closeShop();
+    }
+
+    let inputs: InputAction[];
+    if (controller.isPlayback) {
+      inputs = controller.advance(FIXED_DT);
+    } else {
+      controller.advance(FIXED_DT);
+      inputs = scriptedInputs(simulation);
+      inputs.forEach(action => controller.recordInput(action));
+    }
+    simulation.step(FIXED_DT, inputs);
+  }
+
+  const { status, score, level, lives, itemsBought } = store.getState();
+  return { status, score, level, lives, itemsBought, distance: simulation.distanceTraveled };
+};
+
+const recordLog = (): ReplayLog => {
+  const controller = new ReplayController();
+  playRun(controller, state => state.startGame(42), RUN_TICKS);
+  return controller.getLog();
+};
+
+describe('parseReplay', () => {
+  it('accepts an exported log', () => {
+    const log = recordLog();
+
+    expect(log.inputs.length).toBeGreaterThan(0);
+    expect(log.shopVisits[0]).toEqual(['HEAL']);
+    expect(parseReplay(JSON.stringify(log))).toEqual(log);
+  });
+
+  it('rejects logs from another version of the game', () => {
+    const log = recordLog();
+
+    expect(() => parseReplay(JSON.stringify({ ...log, version: log.version - 1 }))).toThrow(/older version/);
+    expect(() => parseReplay(JSON.stringify({ ...log, version: log.version + 1 }))).toThrow(/newer version/);
+  });
+
+  it('rejects files that are not replays', () => {
+    const log = recordLog();
+
+    expect(() => parseReplay('{ not json')).toThrow('Not a valid INDI-HUNTER replay file');
+    expect(() => parseReplay('[]')).toThrow('Not a valid INDI-HUNTER replay file');
+    expect(() => parseReplay(JSON.stringify({ ...log, seed: '42' }))).toThrow('Not a valid INDI-HUNTER replay file');
+    expect(() => parseReplay(JSON.stringify({ ...log, inputs: [[0, 'FLY']] }))).toThrow('Not a valid INDI-HUNTER replay file');
+    expect(() => parseReplay(JSON.stringify({ ...log, shopVisits: [['FREE_LIVES']] }))).toThrow('Not a valid INDI-HUNTER replay file');
+  });
+});
+
+describe('replay playback', () => {
+  it('reproduces the recorded run', () => {
+    const recorder = new ReplayController();
+    const recorded = playRun(recorder, state => state.startGame(42), RUN_TICKS);
+    const log = parseReplay(JSON.stringify(recorder.getLog()));
+
+    const played = playRun(new ReplayController(), state => state.startReplay(log), RUN_TICKS);
+
+    expect(recorded.itemsBought).toBeGreaterThan(0);
+    expect(played).toEqual(recorded);
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { InputAction, INPUT_ACTIONS, ShopItemId, SHOP_ITEM_IDS } from '../../types';
+
+const REPLAY_VERSION = 6; // 2: named actions (MOVE_LEFT, ...) instead of raw directions, 3: SLIDE and overhead hazards, 4: power-ups, 5: combo multiplier, 6: boss fight
+
+// Compact on purpose: a run is the seed plus [run time in ms, action] pairs.
+// Shop visits are stored separately, in order, so purchases replay regardless of timing.
+export interface ReplayLog {
+  version: number;
+  seed: number;
+  word?: string; // Themed run word, if the run had one
+  recordedAt: string;
+  inputs: [number, InputAction][];
+  shopVisits: ShopItemId[][];
+}
+
+export class ReplayController {
+  mode: 'RECORD' | 'PLAYBACK' = 'RECORD';
+  time = 0; // Seconds of PLAYING time since the run started
+
+  private log: ReplayLog = this.createLog(0);
+  private cursor = 0;
+  private shopCursor = 0;
+
+  private createLog(seed: number, word?: string | null): ReplayLog {
+    const log: ReplayLog = { version: REPLAY_VERSION, seed, recordedAt: new Date().toISOString(), inputs: [], shopVisits: [] };
+    if (word) log.word = word;
+    return log;
+  }
+
+  get isPlayback() {
+    return this.mode === 'PLAYBACK';
+  }
+
+  // Start recording a fresh run
+  record(seed: number, word?: string | null) {
+    this.mode = 'RECORD';
+    this.log = this.createLog(seed, word);
+    this.time = 0;
+    this.cursor = 0;
+    this.shopCursor = 0;
+  }
+
+  // Start feeding a recorded run back in
+  play(log: ReplayLog) {
+    this.mode = 'PLAYBACK';
+    this.log = log;
+    this.time = 0;
+    this.cursor = 0;
+    this.shopCursor = 0;
+  }
+
+  // Keep recording onto a log restored from a saved run
+  resume(log: ReplayLog, time: number) {
+    this.mode = 'RECORD';
+    this.log = log;
+    this.time = time;
+    this.cursor = 0;
+    this.shopCursor = 0;
+  }
+
+  recordInput(action: InputAction) {
+    if (this.mode !== 'RECORD') return;
+    this.log.inputs.push([Math.round(this.time * 1000), action]);
+  }
+
+  beginShopVisit() {
+    if (this.mode !== 'RECORD') return;
+    this.log.shopVisits.push([]);
+  }
+
+  recordPurchase(itemId: ShopItemId) {
+    if (this.mode !== 'RECORD') return;
+    const visits = this.log.shopVisits;
+    if (visits.length > 0) visits[visits.length - 1].push(itemId);
+  }
+
+  // Advances the run clock and returns the recorded inputs that are now due (playback only)
+  advance(delta: number): InputAction[] {
+    this.time += delta;
+    if (this.mode !== 'PLAYBACK') return [];
+
+    const due: InputAction[] = [];
+    const nowMs = Math.round(this.time * 1000); // Rounded exactly like recordInput()
+    while (this.cursor < this.log.inputs.length && this.log.inputs[this.cursor][0] <= nowMs) {
+      due.push(this.log.inputs[this.cursor][1]);
+      this.cursor++;
+    }
+    return due;
+  }
+
+  nextShopVisit(): ShopItemId[] {
+    return this.log.shopVisits[this.shopCursor++] ?? [];
+  }
+
+  getLog(): ReplayLog {
+    return this.log;
+  }
+}
+
+export const replay = new ReplayController();
+
+const INVALID_REPLAY = 'Not a valid INDI-HUNTER replay file';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isInput = (value: unknown): value is [number, InputAction] =>
+  Array.isArray(value) && value.length === 2 && typeof value[0] === 'number' && INPUT_ACTIONS.includes(value[1]);
+const isShopVisit = (value: unknown): value is ShopItemId[] =>
+  Array.isArray(value) && value.every(id => SHOP_ITEM_IDS.includes(id));
+
+// Only logs of this exact version replay faithfully: every version changed what spawns or the
+// order of the random draws, so an older log would quietly drift into a different run.
+export const parseReplay = (json: string): ReplayLog => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error(INVALID_REPLAY);
+  }
+
+  if (!isRecord(data) || typeof data.version !== 'number') {
+    throw new Error(INVALID_REPLAY);
+  }
+  if (data.version > REPLAY_VERSION) {
+    throw new Error(`This replay was recorded with a newer version of the game (v${data.version}, this build plays v${REPLAY_VERSION})`);
+  }
+  if (data.version < REPLAY_VERSION) {
+    throw new Error(`This replay was recorded with an older version of the game (v${data.version}, this build plays v${REPLAY_VERSION})`);
+  }
+
+  const { seed, word, recordedAt, inputs, shopVisits } = data;
+  const isValid =
+    typeof seed === 'number' &&
+    (word === undefined || typeof word === 'string') &&
+    typeof recordedAt === 'string' &&
+    Array.isArray(inputs) && inputs.every(isInput) &&
+    Array.isArray(shopVisits) && shopVisits.every(isShopVisit);
+
+  if (!isValid) {
+    throw new Error(INVALID_REPLAY);
+  }
+
+  const log: ReplayLog = { version: REPLAY_VERSION, seed, recordedAt, inputs, shopVisits };
+  if (typeof word === 'string' && word) log.word = word;
+  return log;
+};
+
+export const downloadReplay = (log: ReplayLog) => {
+  const blob = new Blob([JSON.stringify(log)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `indi-hunter-replay-${log.seed}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,92 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { useStore } from '../../store';
+import { saveRun, loadSavedRun, clearSavedRun, resumeSavedRun } from './SaveGame';
+import { replay } from './Replay';
+import { FIXED_DT, GameSimulation } from './Simulation';
+import { GameStatus, InputAction } from '../../types';
+
+// Just enough of localStorage for the save slot
+const createStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+    removeItem: (key: string) => { items.delete(key); },
+  };
+};
+
+// Jumps every 1.5 s, walking straight through any shop
+const runFor = (simulation: GameSimulation, seconds: number) => {
+  for (let tick = 0; tick < seconds / FIXED_DT; tick++) {
+    const state = useStore.getState();
+    if (state.status === GameStatus.SHOP) state.closeShop();
+    if (state.status !== GameStatus.PLAYING) break;
+
+    replay.advance(FIXED_DT);
+    const inputs: InputAction[] = Math.round(simulation.time / FIXED_DT) % 90 === 0 ? ['JUMP'] : [];
+    inputs.forEach(action => replay.recordInput(action));
+    simulation.step(FIXED_DT, inputs);
+  }
+};
+
+const describeRun = (simulation: GameSimulation) => {
+  const { status, score, lives, level, collectedLetters, gemsCollected } = useStore.getState();
+  return {
+    status, score, lives, level, collectedLetters, gemsCollected,
+    distance: simulation.distanceTraveled,
+    track: simulation.objects.map(obj => `${obj.type}@${obj.position.join(',')}`),
+    inputs: replay.getLog().inputs.length
+  };
+};
+
+describe('saved runs', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', createStorage());
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('resumes a saved run exactly where it left off', () => {
+    const simulation = new GameSimulation(useStore);
+    useStore.getState().startGame(7);
+    runFor(simulation, 5);
+    saveRun(simulation);
+
+    runFor(simulation, 5);
+    const uninterrupted = describeRun(simulation);
+
+    const saved = loadSavedRun();
+    expect(saved).not.toBeNull();
+    const resumed = new GameSimulation(useStore);
+    resumeSavedRun(resumed, saved!);
+    runFor(resumed, 5);
+
+    expect(uninterrupted.status).toBe(GameStatus.PLAYING);
+    expect(describeRun(resumed)).toEqual(uninterrupted);
+  });
+
+  it('has nothing to resume once the save is cleared', () => {
+    const simulation = new GameSimulation(useStore);
+    useStore.getState().startGame(7);
+    runFor(simulation, 1);
+    saveRun(simulation);
+
+    clearSavedRun();
+
+    expect(loadSavedRun()).toBeNull();
+  });
+
+  it('ignores saves from another version of the game', () => {
+    localStorage.setItem('indi-hunter-save', JSON.stringify({ version: 1 }));
+
+    expect(loadSavedRun()).toBeNull();
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { useStore } from '../../store';
+import { pickRunState, SavedRunState } from '../../gameState';
+import { replay, ReplayLog } from './Replay';
+import type { GameSimulation, SimulationSnapshot } from './Simulation';
+
+const SAVE_KEY = 'indi-hunter-save';
+const SAVE_VERSION = 8; // Bumped whenever the run state or the replay format changes
+
+// One in-progress run: the store's run data, the live world, and the replay so far
+export interface RunSnapshot {
+  version: number;
+  savedAt: string;
+  run: SavedRunState;
+  world: SimulationSnapshot;
+  replay: ReplayLog;
+}
+
+export const saveRun = (simulation: GameSimulation) => {
+  const state = useStore.getState();
+  if (state.isReplay) return; // Nothing to resume when watching
+
+  const snapshot: RunSnapshot = {
+    version: SAVE_VERSION,
+    savedAt: new Date().toISOString(),
+    run: pickRunState(state),
+    world: simulation.snapshot(),
+    replay: replay.getLog(),
+  };
+
+  try {
+    localStorage.setItem(SAVE_KEY, JSON.stringify(snapshot));
+  } catch {
+    // Storage full or disabled: the run just won't be resumable
+  }
+};
+
+export const loadSavedRun = (): RunSnapshot | null => {
+  try {
+    const raw = localStorage.getItem(SAVE_KEY);
+    if (!raw) return null;
+    const snapshot = JSON.parse(raw) as RunSnapshot;
+    return snapshot.version === SAVE_VERSION ? snapshot : null;
+  } catch {
+    return null;
+  }
+};
+
+export const clearSavedRun = () => {
+  try {
+    localStorage.removeItem(SAVE_KEY);
+  } catch {
+    // Nothing to clear
+  }
+};
+
+export const resumeSavedRun = (simulation: GameSimulation, snapshot: RunSnapshot) => {
+  useStore.getState().restoreRun(snapshot.run);
+  simulation.restore(snapshot.world);
+  replay.resume(snapshot.replay, snapshot.world.time);
+};
@@ -0,0 +1,98 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { audio } from './Audio';
+
+export type QualityTier = 'LOW' | 'MEDIUM' | 'HIGH';
+export type ShadowQuality = 'OFF' | 'LOW' | 'HIGH';
+
+export const QUALITY_TIERS: QualityTier[] = ['LOW', 'MEDIUM', 'HIGH'];
+export const SHADOW_QUALITIES: ShadowQuality[] = ['OFF', 'LOW', 'HIGH'];
+
+// Canvas device pixel ratio range per resolution tier
+export const RESOLUTION_DPR: Record<QualityTier, [number, number]> = {
+  LOW: [0.75, 1],
+  MEDIUM: [1, 1.5],
+  HIGH: [1, 2],
+};
+
+export const SHADOW_MAP_SIZE: Record<ShadowQuality, number> = {
+  OFF: 0,
+  LOW: 512,
+  HIGH: 2048,
+};
+
+export const PARTICLE_COUNTS: Record<QualityTier, number> = {
+  LOW: 200,
+  MEDIUM: 400,
+  HIGH: 800,
+};
+
+export const MAX_MASTER_GAIN = 0.8;
+export const CAMERA_SENSITIVITY_RANGE: [number, number] = [0.5, 2];
+
+export interface GameSettings {
+  volume: number; // 0-1, scaled to MAX_MASTER_GAIN
+  muted: boolean;
+  music: boolean;
+  bloom: boolean;
+  noise: boolean;
+  vignette: boolean;
+  shadows: ShadowQuality;
+  resolution: QualityTier;
+  particles: QualityTier;
+  adaptiveQuality: boolean; // Let the performance governor lower quality when frames run slow
+  showPerformance: boolean; // Debug readout of the governor's tier and fps
+  showHitboxes: boolean; // Debug wireframes of every collision shape
+  cameraSensitivity: number; // Multiplier on how fast the camera follows
+  cameraSway: boolean; // Camera leans with the player's lane changes
+}
+
+// What the game always looked and sounded like before any of this was configurable
+export const DEFAULT_SETTINGS: GameSettings = {
+  volume: 0.5,
+  muted: false,
+  music: true,
+  bloom: true,
+  noise: true,
+  vignette: true,
+  shadows: 'LOW',
+  resolution: 'MEDIUM',
+  particles: 'HIGH',
+  adaptiveQuality: true,
+  showPerformance: false,
+  showHitboxes: false,
+  cameraSensitivity: 1,
+  cameraSway: false,
+};
+
+interface SettingsState extends GameSettings {
+  update: (changes: Partial<GameSettings>) => void;
+  resetSettings: () => void;
+}
+
+export const useSettings = create<SettingsState>()(
+  persist(
+    (set) => ({
+      ...DEFAULT_SETTINGS,
+      update: (changes) => set(changes),
+      resetSettings: () => set(DEFAULT_SETTINGS),
+    }),
+    {
+      name: 'indi-hunter-settings',
+      version: 1,
+    }
+  )
+);
+
+// Keeps the audio master gain in line with the volume settings; returns the unsubscribe function
+export const syncAudioSettings = () => {
+  const apply = ({ volume, muted }: GameSettings) => audio.setVolume(muted ? 0 : volume * MAX_MASTER_GAIN);
+  apply(useSettings.getState());
+  return useSettings.subscribe(apply);
+};
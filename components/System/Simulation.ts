@@ -0,0 +1,848 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+// Headless gameplay core. No three.js, no React: the World components only render
+// what this produces, and the same class runs in Node for balancing and tests.
+
+import type { GameState } from '../../gameState';
+import {
+    GameObject,
+    ObjectType,
+    GameStatus,
+    LANE_WIDTH,
+    SPAWN_DISTANCE,
+    REMOVE_DISTANCE,
+    IMMORTALITY_DURATION,
+    SLIDE_DURATION,
+    OVERHEAD_HEIGHT,
+    SPEAR_COOLDOWN,
+    POWERUP_DURATIONS,
+    POWERUP_COLORS,
+    GEM_MULTIPLIER,
+    PowerUpKind,
+    POWERUP_KINDS,
+    SCORE_PENALTY_BOAR,
+    SCORE_PENALTY_MONSTER,
+    SCORE_PENALTY_OBSTACLE,
+    SCORE_BOUNTY_BOAR,
+    SCORE_BOUNTY_MONSTER,
+    COMBO_WINDOW,
+    COMBO_STEP,
+    COMBO_MAX_MULTIPLIER,
+    SCORE_PENALTY_BOSS_ORB,
+    SCORE_BOSS_DEFEAT,
+    BOSS_PHASE_COUNT,
+    BOSS_HEALTH_PER_PHASE,
+    BOSS_MAX_HEALTH,
+    BOSS_DISTANCE,
+    BOSS_INTRO_DURATION
+} from '../../types';
+import { getLevelDefinition, getLetterColor } from '../../levels';
+import { SeededRandom } from './Random';
+import { GameEvent, GameEventBus } from './Events';
+import { ObjectPool } from './ObjectPool';
+import { OBJECT_HITBOXES, PLAYER_HITBOXES, PlayerPose, sweepHit } from './Hitboxes';
+import type { InputAction } from '../../types';
+
+export const FIXED_DT = 1 / 60; // Simulation tick, independent of the display frame rate
+
+const GRAVITY = 50;
+const JUMP_FORCE = 16;
+const LANE_CHANGE_RATE = 15;
+const MISSILE_SPEED = 28; // Boar Charge Speed
+const SLIDE_DROP_SPEED = 24; // Sliding mid-air drops the player straight down
+const SPEAR_SPEED = 60; // Away from the player, whatever the run speed
+const SPEAR_RANGE = SPAWN_DISTANCE; // Gone once it flies past the spawn line
+const MAGNET_RANGE = 30; // How far ahead gems start drifting in
+const MAGNET_REACH = LANE_WIDTH * 1.5; // Across: the player's lane and the ones next to it
+const MAGNET_PULL = 8;
+const SPEAR_HEIGHT = 0.9; // Flies at boar height even when thrown mid-jump, so rocks in the lane always stop it
+const NEAR_MISS_REACH = LANE_WIDTH * 1.5; // Across: only hazards in the lanes either side
+const BOSS_ORB_SPEED = 15; // On top of the run speed, like a charging boar
+const BOSS_ORB_HEIGHT = 0.8; // Low enough to jump
+const BOSS_DRIFT_RATE = 2;
+const BOSS_DROP_REACH = 2; // Weak points land at most this many lanes from the player
+
+// Per phase: warning before an attack lands, rest after it, lanes hit at once, seconds between weak points
+const BOSS_PHASES = [
+    { telegraph: 1.4, rest: 1.4, lanes: 1, dropInterval: 3.5 },
+    { telegraph: 1.1, rest: 1.1, lanes: 2, dropInterval: 3 },
+    { telegraph: 0.8, rest: 0.9, lanes: 3, dropInterval: 2.5 },
+];
+
+const getLetterInterval = (level: number) => getLevelDefinition(level).letterInterval;
+
+const getRandomLane = (rng: SeededRandom, laneCount: number) => {
+    const max = Math.floor(laneCount / 2);
+    return rng.int(max * 2 + 1) - max;
+};
+
+const getShuffledLanes = (rng: SeededRandom, laneCount: number) => {
+    const lanes = [];
+    const maxLane = Math.floor(laneCount / 2);
+    for (let i = -maxLane; i <= maxLane; i++) lanes.push(i);
+    return rng.shuffle(lanes);
+};
+
+// Weighted pick from one of the level's mixes (hazards, power-ups)
+const pickWeighted = <T extends { weight: number }>(rng: SeededRandom, options: T[]) => {
+    const total = options.reduce((sum, o) => sum + o.weight, 0);
+    let roll = rng.next() * total;
+    for (const option of options) {
+        roll -= option.weight;
+        if (roll < 0) return option;
+    }
+    return options[options.length - 1];
+};
+
+// Chance of each outcome per spawn attempt, when no letter is due (dev console readout)
+export const getSpawnOdds = (level: number) => {
+    const { hazardChance, hazards, powerUpChance } = getLevelDefinition(level);
+    const totalWeight = hazards.reduce((sum, h) => sum + h.weight, 0);
+    const rowChance = 0.9; // Matches the rng.next() > 0.1 roll below
+    return {
+        empty: 1 - rowChance,
+        gem: rowChance * (1 - hazardChance) * (1 - powerUpChance),
+        powerUp: rowChance * (1 - hazardChance) * powerUpChance,
+        hazards: hazards.map(h => ({ type: h.type, chance: rowChance * hazardChance * h.weight / totalWeight, maxCount: h.maxCount })),
+        gemOverRock: 0.3, // Per rock
+    };
+};
+
+const GEM_TIERS = [10, 50, 100];
+
+// Gem points scale with the chain: one step up every COMBO_STEP links
+export const getComboMultiplier = (combo: number) => Math.min(1 + Math.floor(combo / COMBO_STEP), COMBO_MAX_MULTIPLIER);
+
+export const getGemColor = (points: number) => {
+    if (points === 50) return '#c0c0c0'; // Silver 50
+    if (points === 100) return '#ffd700'; // Gold 100
+    return '#cd7f32'; // Bronze 10
+};
+
+export interface PlayerState {
+    lane: number;
+    x: number;
+    y: number; // Feet height, 0 = on the ground
+    velocityY: number;
+    isJumping: boolean;
+    jumpsPerformed: number;
+    slideTimer: number; // Seconds left of the slide; counts down once on the ground
+    throwCooldown: number; // Seconds until the next spear can go
+    powerUps: Record<PowerUpKind, number>; // Seconds left of each, counts game time only
+    immortalityTimer: number; // Seconds left of the shop ability, counts game time only
+    combo: number; // Pickups and near misses in a row without taking damage
+    comboTimer: number; // Seconds left to extend the chain, counts game time only
+}
+
+// Which hitbox the player has right now
+export const getPlayerPose = (p: PlayerState): PlayerPose => {
+    if (!p.isJumping) return p.slideTimer > 0 ? 'DUCKING' : 'RUNNING';
+    return p.jumpsPerformed === 2 ? 'SPINNING' : 'JUMPING';
+};
+
+export const isOverheadHazard = (type: ObjectType) => type === ObjectType.BRANCH || type === ObjectType.VINE;
+
+const isDamageSource = (type: ObjectType) => {
+    return type === ObjectType.OBSTACLE || type === ObjectType.ALIEN || type === ObjectType.MISSILE || type === ObjectType.MONSTER || type === ObjectType.BOSS_ORB || isOverheadHazard(type);
+};
+
+// What a thrown spear can hit: game it kills for a bounty, or a rock that stops it
+const getSpearBounty = (type: ObjectType) => {
+    if (type === ObjectType.ALIEN || type === ObjectType.MISSILE) return SCORE_BOUNTY_BOAR;
+    if (type === ObjectType.MONSTER) return SCORE_BOUNTY_MONSTER;
+    return 0;
+};
+
+const isSpearTarget = (type: ObjectType) => type === ObjectType.OBSTACLE || getSpearBounty(type) > 0;
+
+// Distance an object moves along the track in one tick
+const getMoveAmount = (type: ObjectType, dist: number, dt: number) => {
+    if (type === ObjectType.MISSILE) return dist + MISSILE_SPEED * dt;
+    if (type === ObjectType.BOSS_ORB) return dist + BOSS_ORB_SPEED * dt;
+    if (type === ObjectType.SPEAR) return -SPEAR_SPEED * dt;
+    return dist;
+};
+
+const createPlayer = (): PlayerState => ({
+    lane: 0,
+    x: 0,
+    y: 0,
+    velocityY: 0,
+    isJumping: false,
+    jumpsPerformed: 0,
+    slideTimer: 0,
+    throwCooldown: 0,
+    powerUps: { MAGNET: 0, MULTIPLIER: 0, SHIELD: 0 },
+    immortalityTimer: 0,
+    combo: 0,
+    comboTimer: 0
+});
+
+export interface BossState {
+    health: number;
+    phase: number; // 1 to BOSS_PHASE_COUNT, follows from the health left
+    x: number; // Drifts across towards whatever it's aiming at
+    introTimer: number; // Seconds left of rising out of the ground
+    attackTimer: number; // Seconds until the next warning
+    warningLanes: number[]; // Lanes the next attack will hit, empty between attacks
+    warningTimer: number; // Seconds until they're hit
+    dropTimer: number; // Seconds until the next weak point
+}
+
+// Each phase takes BOSS_HEALTH_PER_PHASE weak points to get through
+const getBossPhase = (health: number) => Math.min(BOSS_PHASE_COUNT, BOSS_PHASE_COUNT - Math.ceil(health / BOSS_HEALTH_PER_PHASE) + 1);
+
+const createBoss = (): BossState => ({
+    health: BOSS_MAX_HEALTH,
+    phase: 1,
+    x: 0,
+    introTimer: BOSS_INTRO_DURATION,
+    attackTimer: 0,
+    warningLanes: [],
+    warningTimer: 0,
+    dropTimer: BOSS_PHASES[0].dropInterval / 2 // Shows how it's hurt before the fight gets going
+});
+
+// Everything needed to continue a run exactly, as plain JSON
+export interface SimulationSnapshot {
+    player: PlayerState;
+    boss: BossState | null;
+    objects: GameObject[];
+    distanceTraveled: number;
+    nextLetterDistance: number;
+    time: number;
+    level: number;
+    rngState: number;
+}
+
+// Anything exposing zustand's getState(): the React store in the browser, a vanilla store headless
+export interface GameStateSource {
+    getState: () => GameState;
+}
+
+export class GameSimulation {
+    readonly player: PlayerState = createPlayer();
+    boss: BossState | null = null; // Only during the fight at the end of the last level
+    objects: GameObject[] = [];
+    distanceTraveled = 0;
+    nextLetterDistance = getLetterInterval(1);
+    time = 0; // Seconds of PLAYING time this run
+    version = 0; // Bumped whenever objects are added or removed
+    readonly bus = new GameEventBus(); // Audio, particles and HUD feedback subscribe here
+    godMode = false; // Dev console: hazards pass through the player
+
+    private store: GameStateSource;
+    private pool = new ObjectPool();
+    private spawnBuffer: GameObject[] = []; // Objects spawned while the list is being walked
+    private playerPosition: [number, number, number] = [0, 0, 0]; // Feet; the player never moves along z
+    private rng = new SeededRandom(0);
+    private runId = -1;
+    private level = 1;
+    private queuedInputs: InputAction[] = [];
+    private events: GameEvent[] = [];
+
+    constructor(store: GameStateSource) {
+        this.store = store;
+    }
+
+    reset(seed: number) {
+        Object.assign(this.player, createPlayer());
+        this.boss = null;
+        this.objects.forEach(obj => this.pool.release(obj));
+        this.objects = [];
+        this.distanceTraveled = 0;
+        this.nextLetterDistance = getLetterInterval(1);
+        this.time = 0;
+        this.level = 1;
+        this.rng = new SeededRandom(seed);
+        this.queuedInputs = [];
+        this.version++;
+    }
+
+    snapshot(): SimulationSnapshot {
+        return structuredClone({
+            player: this.player,
+            boss: this.boss,
+            objects: this.objects,
+            distanceTraveled: this.distanceTraveled,
+            nextLetterDistance: this.nextLetterDistance,
+            time: this.time,
+            level: this.level,
+            rngState: this.rng.getState()
+        });
+    }
+
+    // Call after the store has been restored for the same run, so step() won't reset it again
+    restore(snapshot: SimulationSnapshot) {
+        const state = this.store.getState();
+        this.runId = state.runId;
+        this.rng = new SeededRandom(state.seed);
+        this.rng.setState(snapshot.rngState);
+
+        const data = structuredClone(snapshot);
+        Object.assign(this.player, data.player);
+        this.boss = data.boss;
+        this.objects.forEach(obj => this.pool.release(obj));
+        // Slot and spawn ids come from this pool, never from the snapshot
+        this.objects = data.objects.map(({ id, spawnId, position, ...fields }) => {
+            return Object.assign(this.pool.acquire(fields.type, position[0], position[1], position[2]), fields);
+        });
+        this.distanceTraveled = data.distanceTraveled;
+        this.nextLetterDistance = data.nextLetterDistance;
+        this.time = data.time;
+        this.level = data.level;
+        this.queuedInputs = [];
+        this.version++;
+    }
+
+    // Live input waits here until the next step picks it up
+    queueInput(action: InputAction) {
+        this.queuedInputs.push(action);
+    }
+
+    takeQueuedInputs(): InputAction[] {
+        const inputs = this.queuedInputs;
+        this.queuedInputs = [];
+        return inputs;
+    }
+
+    // Adds a pooled object to the track; the caller fills in whatever else its type needs
+    spawn(type: ObjectType, x: number, y: number, z: number): GameObject {
+        const obj = this.pool.acquire(type, x, y, z);
+        this.objects.push(obj);
+        this.version++;
+        return obj;
+    }
+
+    // Drops every object that matches, handing its slot back to the pool
+    removeObjects(shouldRemove: (obj: GameObject) => boolean) {
+        let kept = 0;
+        for (const obj of this.objects) {
+            if (shouldRemove(obj)) this.pool.release(obj);
+            else this.objects[kept++] = obj;
+        }
+        if (kept === this.objects.length) return;
+        this.objects.length = kept;
+        this.version++;
+    }
+
+    // Events are collected during the step and published once it's complete, so subscribers
+    // (e.g. the auto-save on shop-enter) always see a consistent world
+    step(dt: number, inputs: InputAction[] = []): GameEvent[] {
+        const state = this.store.getState();
+
+        if (state.runId !== this.runId) {
+            this.runId = state.runId;
+            this.reset(state.seed);
+        }
+        if (state.status !== GameStatus.PLAYING) return [];
+
+        this.events = [];
+        this.time += dt;
+
+        if (state.level !== this.level) {
+            this.enterLevel(state.level);
+        }
+        if (state.isBossFight && !this.boss) {
+            this.startBoss();
+        }
+
+        inputs.forEach(action => this.applyInput(action));
+        this.updatePlayer(dt);
+        this.updateObjects(dt);
+        // The boss brings everything on the track while it's up
+        if (this.boss) this.updateBoss(dt);
+        else this.spawnObjects();
+
+        // Final distance goes in before anyone hears the run is over
+        const after = this.store.getState();
+        if (after.status === GameStatus.GAME_OVER || after.status === GameStatus.VICTORY) {
+            after.setDistance(Math.floor(this.distanceTraveled));
+            this.events.push({ type: 'run-end', status: after.status });
+        }
+
+        this.events.forEach(event => this.bus.emit(event));
+        return this.events;
+    }
+
+    private enterLevel(level: number) {
+        this.level = level;
+        if (level <= 1) return;
+
+        this.removeObjects(obj => obj.position[2] <= -80);
+        if (getLevelDefinition(level).hasShopPortal) {
+            this.spawn(ObjectType.SHOP_PORTAL, 0, 0, -100);
+        }
+        this.nextLetterDistance = this.distanceTraveled - SPAWN_DISTANCE + getLetterInterval(level);
+        this.version++;
+        this.events.push({ type: 'level-up', value: level });
+    }
+
+    private applyInput(action: InputAction) {
+        const { laneCount, hasDoubleJump, activateImmortality } = this.store.getState();
+        const maxLane = Math.floor(laneCount / 2);
+        const p = this.player;
+
+        if (action === 'MOVE_LEFT') p.lane = Math.max(p.lane - 1, -maxLane);
+        else if (action === 'MOVE_RIGHT') p.lane = Math.min(p.lane + 1, maxLane);
+        else if (action === 'JUMP') this.jump(hasDoubleJump);
+        else if (action === 'SLIDE') this.slide();
+        else if (action === 'THROW') this.throwSpear();
+        else if (action === 'ABILITY' && activateImmortality()) {
+            p.immortalityTimer = IMMORTALITY_DURATION;
+            this.events.push({ type: 'ability', value: IMMORTALITY_DURATION });
+        }
+    }
+
+    private jump(hasDoubleJump: boolean) {
+        const p = this.player;
+        const maxJumps = hasDoubleJump ? 2 : 1;
+
+        // Jumping cuts a slide short
+        p.slideTimer = 0;
+
+        if (!p.isJumping) {
+            p.isJumping = true;
+            p.jumpsPerformed = 1;
+            p.velocityY = JUMP_FORCE;
+            this.events.push({ type: 'jump', isDouble: false });
+        } else if (p.jumpsPerformed < maxJumps) {
+            p.jumpsPerformed += 1;
+            p.velocityY = JUMP_FORCE;
+            this.events.push({ type: 'jump', isDouble: true });
+        }
+    }
+
+    // On the ground it starts right away; in the air the player drops first and slides on landing
+    private slide() {
+        const p = this.player;
+        if (p.slideTimer > 0 && !p.isJumping) return;
+
+        p.slideTimer = SLIDE_DURATION;
+        if (p.isJumping) p.velocityY = Math.min(p.velocityY, -SLIDE_DROP_SPEED);
+        this.events.push({ type: 'slide' });
+    }
+
+    // Straight down the lane the player is heading for
+    private throwSpear() {
+        const p = this.player;
+        if (p.throwCooldown > 0 || !this.store.getState().throwSpear()) return;
+
+        p.throwCooldown = SPEAR_COOLDOWN;
+        const spear = this.spawn(ObjectType.SPEAR, p.lane * LANE_WIDTH, SPEAR_HEIGHT, -1);
+        this.events.push({ type: 'throw', position: [...spear.position] });
+    }
+
+    private updatePlayer(dt: number) {
+        const p = this.player;
+        const maxLane = Math.floor(this.store.getState().laneCount / 2);
+        p.lane = Math.max(Math.min(p.lane, maxLane), -maxLane);
+
+        // Ticks only while PLAYING, so pauses and the shop freeze it
+        if (p.immortalityTimer > 0) {
+            p.immortalityTimer -= dt;
+            if (p.immortalityTimer <= 0) {
+                p.immortalityTimer = 0;
+                this.store.getState().endImmortality();
+            }
+        }
+
+        if (p.throwCooldown > 0) p.throwCooldown = Math.max(0, p.throwCooldown - dt);
+        for (const kind of POWERUP_KINDS) {
+            if (p.powerUps[kind] > 0) p.powerUps[kind] = Math.max(0, p.powerUps[kind] - dt);
+        }
+        if (p.comboTimer > 0) {
+            p.comboTimer -= dt;
+            if (p.comboTimer <= 0) this.breakCombo();
+        }
+
+        const targetX = p.lane * LANE_WIDTH;
+        p.x += (targetX - p.x) * dt * LANE_CHANGE_RATE;
+
+        if (p.isJumping) {
+            p.y += p.velocityY * dt;
+            p.velocityY -= GRAVITY * dt;
+
+            if (p.y <= 0) {
+                p.y = 0;
+                p.isJumping = false;
+                p.jumpsPerformed = 0;
+                p.velocityY = 0;
+            }
+        } else if (p.slideTimer > 0) {
+            p.slideTimer = Math.max(0, p.slideTimer - dt);
+        }
+    }
+
+    private updateObjects(dt: number) {
+        const { speed, collectGem, collectLetter, openShop, takeDamage } = this.store.getState();
+        const dist = speed * dt;
+        this.distanceTraveled += dist;
+
+        const { powerUps } = this.player;
+        const playerHitbox = PLAYER_HITBOXES[getPlayerPose(this.player)];
+        const playerPosition = this.playerPosition;
+        playerPosition[0] = this.player.x;
+        playerPosition[1] = this.player.y;
+        const newSpawns = this.spawnBuffer;
+        let kept = 0;
+        let hasChanges = false;
+
+        for (const obj of this.objects) {
+            const prevZ = obj.position[2];
+            obj.position[2] += getMoveAmount(obj.type, dist, dt);
+
+            // Boar Aggro Logic (Level 2)
+            if (obj.type === ObjectType.ALIEN && obj.active && !obj.hasFired) {
+                 // Charge logic
+                 if (obj.position[2] > -90) {
+                     obj.hasFired = true;
+
+                     // Spawn Charging Boar (replaces idle boar)
+                     const missile = this.pool.acquire(ObjectType.MISSILE, obj.position[0], 0.6, obj.position[2] + 2);
+                     missile.color = '#5d4037';
+                     newSpawns.push(missile);
+                     this.events.push({ type: 'charge', objectType: ObjectType.MISSILE, position: [...missile.position] });
+                     hasChanges = true;
+                 }
+            }
+
+            // Magnet: gems ahead in this lane and the next ones drift into the player's path
+            if (powerUps.MAGNET > 0 && obj.active && obj.type === ObjectType.GEM && obj.position[2] > -MAGNET_RANGE && obj.position[2] < 0) {
+                const dx = this.player.x - obj.position[0];
+                if (Math.abs(dx) <= MAGNET_REACH) obj.position[0] += dx * Math.min(1, dt * MAGNET_PULL);
+            }
+
+            let keep = true;
+            if (obj.active && obj.type !== ObjectType.SPEAR && !(this.godMode && isDamageSource(obj.type)) && sweepHit(playerHitbox, playerPosition, OBJECT_HITBOXES[obj.type], obj.position, prevZ)) {
+                if (obj.type === ObjectType.SHOP_PORTAL) {
+                    openShop();
+                    this.events.push({ type: 'shop-enter', position: [...obj.position] });
+                    keep = false;
+                } else if (isDamageSource(obj.type)) {
+                    // Calculate Penalty
+                    let penalty = SCORE_PENALTY_OBSTACLE;
+                    if (obj.type === ObjectType.MISSILE) penalty = SCORE_PENALTY_BOAR;
+                    if (obj.type === ObjectType.MONSTER) penalty = SCORE_PENALTY_MONSTER;
+                    if (obj.type === ObjectType.BOSS_ORB) penalty = SCORE_PENALTY_BOSS_ORB;
+
+                    // The spirit shield outranks a shield pickup, which is only used up when it saves you
+                    const isImmortal = this.store.getState().isImmortalityActive;
+                    const isShielded = !isImmortal && powerUps.SHIELD > 0;
+                    if (isShielded) powerUps.SHIELD = 0;
+                    else takeDamage(penalty, obj.type);
+                    this.events.push({ type: 'hit', objectType: obj.type, position: [...obj.position], value: penalty, isBlocked: isImmortal || isShielded });
+                    if (!isImmortal && !isShielded) this.breakCombo();
+
+                    const after = this.store.getState();
+                    if (after.status === GameStatus.GAME_OVER) {
+                        this.events.push({ type: 'death', objectType: obj.type, position: [...obj.position], value: after.score });
+                    }
+                } else {
+                    // Collectible
+                    const position: [number, number, number] = [...obj.position];
+                    if (obj.type === ObjectType.LETTER && obj.targetIndex !== undefined) {
+                        this.extendCombo();
+                        collectLetter(obj.targetIndex);
+                        this.events.push({ type: 'letter', objectType: ObjectType.LETTER, position, value: obj.targetIndex, color: obj.color });
+                    } else if (obj.type === ObjectType.POWERUP) {
+                        this.extendCombo();
+                        const kind = obj.value as PowerUpKind;
+                        powerUps[kind] = POWERUP_DURATIONS[kind];
+                        this.events.push({ type: 'powerup', objectType: ObjectType.POWERUP, position, kind, value: POWERUP_DURATIONS[kind], color: obj.color });
+                    } else if (obj.type === ObjectType.WEAK_POINT) {
+                        this.extendCombo();
+                        this.damageBoss(position);
+                    } else {
+                        this.extendCombo();
+                        const multiplier = (powerUps.MULTIPLIER > 0 ? GEM_MULTIPLIER : 1) * getComboMultiplier(this.player.combo);
+                        const points = (obj.points || 50) * multiplier;
+                        if (obj.type === ObjectType.GEM) collectGem(points);
+                        this.events.push({ type: 'collect', objectType: obj.type, position, value: points, color: obj.color });
+                    }
+                }
+
+                obj.active = false;
+                hasChanges = true;
+            } else if (obj.active && isDamageSource(obj.type) && !(obj.type === ObjectType.ALIEN && obj.hasFired) && prevZ < 0 && obj.position[2] >= 0) {
+                // Dodged right alongside: it passed the player's line in the next lane over.
+                // A boar that has charged only counts once, as the charging one it turned into.
+                const dx = Math.abs(obj.position[0] - this.player.x);
+                if (dx > LANE_WIDTH / 2 && dx <= NEAR_MISS_REACH) {
+                    this.extendCombo();
+                    this.events.push({ type: 'near-miss', objectType: obj.type, position: [...obj.position], value: this.player.combo });
+                }
+            }
+
+            if (obj.position[2] > REMOVE_DISTANCE || (obj.type === ObjectType.SPEAR && obj.position[2] < -SPEAR_RANGE)) {
+                keep = false;
+                hasChanges = true;
+            }
+
+            if (keep) {
+                this.objects[kept++] = obj;
+            } else {
+                this.pool.release(obj);
+            }
+        }
+
+        // Compacted in place, then this step's spawns go on the end
+        this.objects.length = kept;
+        for (const obj of newSpawns) this.objects.push(obj);
+        newSpawns.length = 0;
+        if (this.updateSpears(dt, dist)) hasChanges = true;
+        if (hasChanges) this.version++;
+    }
+
+    private startBoss() {
+        this.boss = createBoss();
+        // Clear the stage it rises on; what's already closer plays out
+        this.removeObjects(obj => obj.position[2] < -BOSS_DISTANCE);
+        this.events.push({ type: 'boss-start' });
+    }
+
+    // Attacks always aim at the player's lane, with more lanes and less warning each phase.
+    // Weak points fall between attacks, never in a lane about to be hit.
+    private updateBoss(dt: number) {
+        const boss = this.boss!;
+        const { laneCount } = this.store.getState();
+        const tuning = BOSS_PHASES[boss.phase - 1];
+        const rng = this.rng;
+
+        const targetX = boss.warningLanes.length > 0
+            ? boss.warningLanes.reduce((sum, lane) => sum + lane * LANE_WIDTH, 0) / boss.warningLanes.length
+            : this.player.x;
+        boss.x += (targetX - boss.x) * Math.min(1, dt * BOSS_DRIFT_RATE);
+
+        if (boss.introTimer > 0) {
+            boss.introTimer = Math.max(0, boss.introTimer - dt);
+            return;
+        }
+
+        if (boss.warningTimer > 0) {
+            boss.warningTimer -= dt;
+            if (boss.warningTimer <= 0) {
+                boss.warningTimer = 0;
+                for (const lane of boss.warningLanes) {
+                    this.spawn(ObjectType.BOSS_ORB, lane * LANE_WIDTH, BOSS_ORB_HEIGHT, -BOSS_DISTANCE).color = '#76ff03';
+                }
+                this.events.push({ type: 'boss-attack', lanes: boss.warningLanes, position: [boss.x, BOSS_ORB_HEIGHT, -BOSS_DISTANCE] });
+                boss.warningLanes = [];
+                boss.attackTimer = tuning.rest;
+            }
+        } else {
+            boss.attackTimer -= dt;
+            if (boss.attackTimer <= 0) {
+                const others = getShuffledLanes(rng, laneCount).filter(lane => lane !== this.player.lane);
+                boss.warningLanes = [this.player.lane, ...others.slice(0, tuning.lanes - 1)];
+                boss.warningTimer = tuning.telegraph;
+                this.events.push({ type: 'boss-telegraph', lanes: [...boss.warningLanes], value: tuning.telegraph });
+            }
+        }
+
+        boss.dropTimer -= dt;
+        if (boss.dropTimer <= 0) {
+            boss.dropTimer = tuning.dropInterval;
+            const lanes = getShuffledLanes(rng, laneCount).filter(lane => {
+                return Math.abs(lane - this.player.lane) <= BOSS_DROP_REACH && !boss.warningLanes.includes(lane);
+            });
+            if (lanes.length > 0) {
+                this.spawn(ObjectType.WEAK_POINT, lanes[0] * LANE_WIDTH, 1.2, -BOSS_DISTANCE).color = '#ffea00';
+            }
+        }
+    }
+
+    private damageBoss(position: [number, number, number]) {
+        const boss = this.boss;
+        if (!boss) return;
+
+        boss.health -= 1;
+        this.events.push({ type: 'boss-hit', position, value: boss.health });
+
+        if (boss.health <= 0) {
+            this.events.push({ type: 'boss-defeated', position: [boss.x, 0, -BOSS_DISTANCE], value: SCORE_BOSS_DEFEAT });
+            this.boss = null;
+            this.store.getState().defeatBoss();
+            return;
+        }
+
+        const phase = getBossPhase(boss.health);
+        if (phase !== boss.phase) {
+            // A new phase starts from a breather, with no attack already on its way
+            boss.phase = phase;
+            boss.warningLanes = [];
+            boss.warningTimer = 0;
+            boss.attackTimer = BOSS_PHASES[phase - 1].rest;
+            this.events.push({ type: 'boss-phase', value: phase });
+        }
+    }
+
+    private extendCombo() {
+        const p = this.player;
+        p.combo += 1;
+        p.comboTimer = COMBO_WINDOW;
+        this.store.getState().recordCombo(p.combo);
+    }
+
+    private breakCombo() {
+        const p = this.player;
+        if (p.combo > 0) this.events.push({ type: 'combo-end', value: p.combo });
+        p.combo = 0;
+        p.comboTimer = 0;
+    }
+
+    // Every spear in flight against everything it can hit, once all of them have moved. Each test
+    // sweeps the spear's path relative to the target, as both close in on each other fast.
+    private updateSpears(dt: number, dist: number) {
+        const spearHitbox = OBJECT_HITBOXES[ObjectType.SPEAR];
+        const spearMove = getMoveAmount(ObjectType.SPEAR, dist, dt);
+        let hasChanges = false;
+
+        for (const spear of this.objects) {
+            if (spear.type !== ObjectType.SPEAR || !spear.active) continue;
+
+            // Nearest target along the flight wins
+            let target: GameObject | null = null;
+            for (const obj of this.objects) {
+                if (!obj.active || !isSpearTarget(obj.type)) continue;
+                if (target && obj.position[2] <= target.position[2]) continue;
+                const fromZ = spear.position[2] - spearMove + getMoveAmount(obj.type, dist, dt);
+                if (sweepHit(OBJECT_HITBOXES[obj.type], obj.position, spearHitbox, spear.position, fromZ)) target = obj;
+            }
+            if (!target) continue;
+
+            spear.active = false;
+            hasChanges = true;
+            const position: [number, number, number] = [...target.position];
+
+            const bounty = getSpearBounty(target.type);
+            if (bounty > 0) {
+                target.active = false;
+                this.store.getState().addScore(bounty);
+                this.events.push({ type: 'kill', objectType: target.type, position, value: bounty, color: target.color });
+            } else {
+                this.events.push({ type: 'spear-blocked', objectType: target.type, position });
+            }
+        }
+        return hasChanges;
+    }
+
+    private spawnObjects() {
+        const { speed, laneCount, level, collectedLetters, targetWord } = this.store.getState();
+        const definition = getLevelDefinition(level);
+        const rng = this.rng;
+
+        // Charging boars and spears in flight don't hold up the next row
+        let furthestZ = Infinity;
+        for (const o of this.objects) {
+            if (o.type !== ObjectType.MISSILE && o.type !== ObjectType.SPEAR) furthestZ = Math.min(furthestZ, o.position[2]);
+        }
+        if (furthestZ === Infinity) furthestZ = -20;
+
+        if (furthestZ <= -SPAWN_DISTANCE) return;
+
+        const minGap = 12 + (speed * 0.4);
+        const spawnZ = Math.min(furthestZ - minGap, -SPAWN_DISTANCE);
+
+        const isLetterDue = this.distanceTraveled >= this.nextLetterDistance;
+
+        if (isLetterDue) {
+            const lane = getRandomLane(rng, laneCount);
+            const target = targetWord;
+
+            const availableIndices = target.map((_, i) => i).filter(i => !collectedLetters.includes(i));
+
+            if (availableIndices.length > 0) {
+                const chosenIndex = rng.pick(availableIndices);
+                const val = target[chosenIndex];
+                const color = getLetterColor(chosenIndex);
+
+                const letter = this.spawn(ObjectType.LETTER, lane * LANE_WIDTH, 1.0, spawnZ);
+                letter.color = color;
+                letter.value = val;
+                letter.targetIndex = chosenIndex;
+
+                this.nextLetterDistance += getLetterInterval(level);
+            } else {
+               // Fallback reward
+               const gem = this.spawn(ObjectType.GEM, lane * LANE_WIDTH, 1.2, spawnZ);
+               gem.color = '#ffd700';
+               gem.points = 100;
+            }
+
+        } else if (rng.next() > 0.1) {
+
+            const isObstacle = rng.next() < definition.hazardChance;
+
+            if (isObstacle) {
+                const hazard = pickWeighted(rng, definition.hazards);
+                const availableLanes = getShuffledLanes(rng, laneCount);
+                const count = Math.min(1 + rng.int(hazard.maxCount), availableLanes.length);
+
+                if (isOverheadHazard(hazard.type)) {
+                    // Low branches and vines, only a slide gets under them
+                    for (let k = 0; k < count; k++) {
+                        const lane = availableLanes[k];
+                        this.spawn(hazard.type, lane * LANE_WIDTH, OVERHEAD_HEIGHT, spawnZ);
+
+                        // Sometimes an artifact waits underneath, for whoever slides
+                        if (rng.next() < 0.3) {
+                            const points = rng.pick(GEM_TIERS);
+
+                            const gem = this.spawn(ObjectType.GEM, lane * LANE_WIDTH, 0.7, spawnZ);
+                            gem.color = getGemColor(points);
+                            gem.points = points;
+                        }
+                    }
+                } else if (hazard.type !== ObjectType.OBSTACLE) {
+                    // Cluster of Enemies
+                    for (let k = 0; k < count; k++) {
+                        const lane = availableLanes[k];
+                        const color = hazard.type === ObjectType.MONSTER ? '#6a1b9a' : '#4e342e';
+
+                        // Idle boars (ALIEN) turn into charging ones later
+                        const enemy = this.spawn(hazard.type, lane * LANE_WIDTH, 0.6, spawnZ);
+                        enemy.color = color;
+                        enemy.hasFired = false;
+                    }
+                } else {
+                    // Standard Rock/Log Obstacles
+                    for (let i = 0; i < count; i++) {
+                        const lane = availableLanes[i];
+                        this.spawn(ObjectType.OBSTACLE, lane * LANE_WIDTH, 0.4, spawnZ).color = '#546e7a';
+
+                        // 30% chance for a weapon/artifact above obstacle
+                        if (rng.next() < 0.3) {
+                             const points = rng.pick(GEM_TIERS);
+
+                             const gem = this.spawn(ObjectType.GEM, lane * LANE_WIDTH, 2.0, spawnZ);
+                             gem.color = getGemColor(points);
+                             gem.points = points;
+                        }
+                    }
+                }
+
+            } else {
+                // Standalone Weapon/Artifact, now and then a power-up instead
+                const lane = getRandomLane(rng, laneCount);
+
+                if (rng.next() < definition.powerUpChance) {
+                    const { kind } = pickWeighted(rng, definition.powerUps);
+                    const powerUp = this.spawn(ObjectType.POWERUP, lane * LANE_WIDTH, 1.2, spawnZ);
+                    powerUp.value = kind;
+                    powerUp.color = POWERUP_COLORS[kind];
+                } else {
+                    const points = rng.pick(GEM_TIERS);
+
+                    const gem = this.spawn(ObjectType.GEM, lane * LANE_WIDTH, 1.2, spawnZ);
+                    gem.color = getGemColor(points);
+                    gem.points = points;
+                }
+            }
+        }
+    }
+}
@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { createContext, useContext, useEffect, useRef, useState } from 'react';
+import type { GameSimulation } from './Simulation';
+
+// One simulation per mounted game; the Canvas bridges this context into the R3F tree
+export const SimulationContext = createContext<GameSimulation | null>(null);
+
+export const useSimulation = () => {
+  const simulation = useContext(SimulationContext);
+  if (!simulation) {
+    throw new Error("useSimulation must be used inside a SimulationContext provider");
+  }
+  return simulation;
+};
+
+// Samples a value off the simulation every `interval` ms for the HUD, which never subscribes to
+// the simulation itself. Only re-renders when the value changes; pass `shallow` from
+// zustand/shallow for selectors that build a fresh object.
+export const useSimulationValue = <T>(
+  selector: (simulation: GameSimulation) => T,
+  interval: number,
+  isEqual: (a: T, b: T) => boolean = Object.is
+): T => {
+  const simulation = useSimulation();
+  const [value, setValue] = useState(() => selector(simulation));
+  const latest = useRef({ selector, isEqual, value });
+  latest.current.selector = selector;
+  latest.current.isEqual = isEqual;
+
+  useEffect(() => {
+    const timer = setInterval(() => {
+      const next = latest.current.selector(simulation);
+      if (latest.current.isEqual(latest.current.value, next)) return;
+      latest.current.value = next;
+      setValue(next);
+    }, interval);
+    return () => clearInterval(timer);
+  }, [simulation, interval]);
+
+  return value;
+};
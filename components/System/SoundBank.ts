@@ -0,0 +1,186 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+// Named sound cues, configured in data/soundbank.json. A cue with a `file` plays that recording
+// from public/sounds/; without one (or until it has loaded) it falls back to the synth.
+
+import soundBankData from '../../data/soundbank.json';
+import { SoundCue, SYNTH_RECIPES } from './SynthRecipes';
+
+// Soundtrack voices; the sequencer synthesises any that have no recording
+export type MusicCue = 'drumLow' | 'drumHigh' | 'shaker' | 'bass' | 'flute' | 'marimba';
+export type CueName = SoundCue | MusicCue;
+
+export interface CueDefinition {
+  file?: string; // Path under public/sounds/
+  volume: number; // Multiplier on the voice's own level
+  volumeVariance: number; // Random +/- share of the volume per play, 0-1
+  pitchVariance: number; // Random +/- semitones per play
+  maxVoices: number; // Oldest voice is cut off beyond this
+  rootHz?: number; // Pitch of the recording, so music voices can be transposed to any note
+}
+
+const CUE_NAMES: CueName[] = [
+  ...(Object.keys(SYNTH_RECIPES) as SoundCue[]),
+  'drumLow', 'drumHigh', 'shaker', 'bass', 'flute', 'marimba',
+];
+
+const SOUNDS_PATH = 'sounds/';
+const STEAL_FADE = 0.02; // Seconds to silence a voice that lost its slot
+const RELEASE = 0.03; // Time constant of a held sample's release
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Fail loudly on a bad soundbank.json instead of going quiet mid-run
+const validateSoundBank = (data: unknown): Record<CueName, CueDefinition> => {
+  const fail = (reason: string): never => {
+    throw new Error(`soundbank.json: ${reason}`);
+  };
+
+  if (!isRecord(data)) return fail('must be an object of cues');
+  Object.keys(data).forEach(cue => {
+    if (!CUE_NAMES.includes(cue as CueName)) fail(`unknown cue ${cue}`);
+  });
+
+  const bank = {} as Record<CueName, CueDefinition>;
+  CUE_NAMES.forEach(cue => {
+    const def = data[cue];
+    if (!isRecord(def)) return fail(`missing cue ${cue}`);
+    if (def.file !== undefined && (typeof def.file !== 'string' || def.file === '')) return fail(`${cue}: file must be a file name`);
+    if (!isNumber(def.volume) || def.volume < 0) return fail(`${cue}: volume must not be negative`);
+    if (!isNumber(def.volumeVariance) || def.volumeVariance < 0 || def.volumeVariance >= 1) return fail(`${cue}: volumeVariance must be at least 0 and below 1`);
+    if (!isNumber(def.pitchVariance) || def.pitchVariance < 0 || def.pitchVariance > 12) return fail(`${cue}: pitchVariance must be between 0 and 12 semitones`);
+    if (!isNumber(def.maxVoices) || !Number.isInteger(def.maxVoices) || def.maxVoices < 1) return fail(`${cue}: maxVoices must be a positive integer`);
+    if (def.rootHz !== undefined && (!isNumber(def.rootHz) || def.rootHz <= 0)) return fail(`${cue}: rootHz must be positive`);
+
+    const cueDefinition: CueDefinition = {
+      volume: def.volume,
+      volumeVariance: def.volumeVariance,
+      pitchVariance: def.pitchVariance,
+      maxVoices: def.maxVoices
+    };
+    if (typeof def.file === 'string') cueDefinition.file = def.file;
+    if (isNumber(def.rootHz)) cueDefinition.rootHz = def.rootHz;
+    bank[cue] = cueDefinition;
+  });
+
+  return bank;
+};
+
+export const SOUND_BANK = validateSoundBank(soundBankData);
+
+const randomSpread = (amount: number) => (Math.random() * 2 - 1) * amount;
+
+interface Voice {
+  gain: GainNode;
+  sources: AudioScheduledSourceNode[];
+}
+
+export class SoundBank {
+  private ctx: AudioContext | null = null;
+  private buffers = new Map<CueName, AudioBuffer>();
+  private voices = new Map<CueName, Voice[]>();
+
+  // Fetches and decodes every recording once. Cues keep the synth until their file arrives.
+  load(ctx: AudioContext) {
+    if (this.ctx) return;
+    this.ctx = ctx;
+
+    CUE_NAMES.forEach(cue => {
+      const file = SOUND_BANK[cue].file;
+      if (!file) return;
+      fetch(new URL(SOUNDS_PATH + file, document.baseURI))
+        .then(response => {
+          if (!response.ok) throw new Error(`HTTP ${response.status}`);
+          return response.arrayBuffer();
+        })
+        .then(data => ctx.decodeAudioData(data))
+        .then(buffer => this.buffers.set(cue, buffer))
+        .catch(() => {
+          // Missing or undecodable: the cue keeps the synth
+        });
+    });
+  }
+
+  // Sound effect, right now: the recording if there is one, the synth recipe otherwise
+  play(cue: SoundCue, destination: AudioNode) {
+    const ctx = this.ctx;
+    if (!ctx) return;
+
+    const t = ctx.currentTime;
+    const { gain, rate } = this.startVoice(cue, destination, t, 1);
+    const buffer = this.buffers.get(cue);
+    const sources = buffer ? [this.playBuffer(buffer, gain, t, rate)] : SYNTH_RECIPES[cue](ctx, gain, t, rate);
+    this.track(cue, { gain, sources });
+  }
+
+  // Music voice at `when`, transposed to `freq` and cut to `duration` if given.
+  // Returns false when the cue has no recording, so the caller synthesises it instead.
+  playSample(cue: MusicCue, destination: AudioNode, when: number, volume: number, freq?: number, duration?: number): boolean {
+    const buffer = this.buffers.get(cue);
+    if (!this.ctx || !buffer) return false;
+
+    const { rootHz } = SOUND_BANK[cue];
+    const { gain, rate } = this.startVoice(cue, destination, when, volume);
+    const source = this.playBuffer(buffer, gain, when, freq && rootHz ? rate * freq / rootHz : rate);
+    if (duration !== undefined) {
+      gain.gain.setTargetAtTime(0, when + duration, RELEASE);
+      source.stop(when + duration + RELEASE * 5);
+    }
+    this.track(cue, { gain, sources: [source] });
+    return true;
+  }
+
+  // Claims a voice slot, stealing the oldest if the cue is at its limit, and rolls this play's variation
+  private startVoice(cue: CueName, destination: AudioNode, when: number, volume: number) {
+    const ctx = this.ctx!;
+    const def = SOUND_BANK[cue];
+    const active = this.voices.get(cue) ?? [];
+    this.voices.set(cue, active);
+
+    while (active.length >= def.maxVoices) {
+      const oldest = active.shift()!;
+      const now = ctx.currentTime;
+      oldest.gain.gain.cancelScheduledValues(now);
+      oldest.gain.gain.setTargetAtTime(0, now, STEAL_FADE / 3);
+      oldest.sources.forEach(source => source.stop(now + STEAL_FADE));
+    }
+
+    const gain = ctx.createGain();
+    gain.gain.setValueAtTime(volume * def.volume * (1 + randomSpread(def.volumeVariance)), when);
+    gain.connect(destination);
+
+    const rate = Math.pow(2, randomSpread(def.pitchVariance) / 12);
+    return { gain, rate };
+  }
+
+  private playBuffer(buffer: AudioBuffer, output: AudioNode, when: number, rate: number) {
+    const source = this.ctx!.createBufferSource();
+    source.buffer = buffer;
+    source.playbackRate.value = rate;
+    source.connect(output);
+    source.start(when);
+    return source;
+  }
+
+  // Frees the slot once every source of the voice has finished
+  private track(cue: CueName, voice: Voice) {
+    this.voices.get(cue)!.push(voice);
+    let playing = voice.sources.length;
+    voice.sources.forEach(source => {
+      source.onended = () => {
+        playing--;
+        if (playing > 0) return;
+        const active = this.voices.get(cue)!;
+        const index = active.indexOf(voice);
+        if (index >= 0) active.splice(index, 1);
+        voice.gain.disconnect();
+      };
+    });
+  }
+}
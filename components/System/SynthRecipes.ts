@@ -0,0 +1,383 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+// Oscillator recipes for every sound effect. The sound bank falls back to these when a cue
+// has no recorded sample. Each one starts at `t`, scales its pitches by `rate`, plays into
+// `output`, and returns its sources so the bank can cut it off when stealing the voice.
+
+export type SoundCue = 'gem' | 'letter' | 'jump' | 'doubleJump' | 'slide' | 'damage' | 'charge' | 'throw' | 'kill' | 'spearBlocked' | 'powerUp' | 'nearMiss' | 'bossWarning' | 'bossHit';
+
+export type SynthRecipe = (ctx: AudioContext, output: AudioNode, t: number, rate: number) => AudioScheduledSourceNode[];
+
+// Spirit Orb Collection (Wind Chime / Flute)
+const gem: SynthRecipe = (ctx, output, t, rate) => {
+  const osc = ctx.createOscillator();
+  const gain = ctx.createGain();
+
+  osc.type = 'triangle'; // Flute-like
+  osc.frequency.setValueAtTime(800 * rate, t);
+  osc.frequency.linearRampToValueAtTime(1200 * rate, t + 0.1);
+
+  gain.gain.setValueAtTime(0.3, t);
+  gain.gain.exponentialRampToValueAtTime(0.01, t + 0.3);
+
+  osc.connect(gain);
+  gain.connect(output);
+
+  osc.start(t);
+  osc.stop(t + 0.3);
+  return [osc];
+};
+
+// Letter Collection (Heavy Drum/Tribal Beat)
+const letter: SynthRecipe = (ctx, output, t, rate) => {
+  // Tribal Percussion Chord
+  const freqs = [150, 200];
+
+  return freqs.map(f => {
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+
+    osc.type = 'sine'; // Drum-like
+    osc.frequency.setValueAtTime(f * rate, t);
+    osc.frequency.exponentialRampToValueAtTime(f * rate * 0.5, t + 0.1); // Pitch drop
+
+    gain.gain.setValueAtTime(0.5, t);
+    gain.gain.exponentialRampToValueAtTime(0.01, t + 0.15);
+
+    osc.connect(gain);
+    gain.connect(output);
+
+    osc.start(t);
+    osc.stop(t + 0.15);
+    return osc;
+  });
+};
+
+// Jump (Wood block / Swoosh)
+const createJump = (startFreq: number, endFreq: number): SynthRecipe => (ctx, output, t, rate) => {
+  const osc = ctx.createOscillator();
+  const gain = ctx.createGain();
+
+  // Filtered noise or quick sweep
+  osc.type = 'triangle';
+  osc.frequency.setValueAtTime(startFreq * rate, t);
+  osc.frequency.linearRampToValueAtTime(endFreq * rate, t + 0.1);
+
+  gain.gain.setValueAtTime(0.15, t);
+  gain.gain.linearRampToValueAtTime(0.01, t + 0.1);
+
+  osc.connect(gain);
+  gain.connect(output);
+
+  osc.start(t);
+  osc.stop(t + 0.1);
+  return [osc];
+};
+
+// Slide (Scrape through leaves)
+const slide: SynthRecipe = (ctx, output, t, rate) => {
+  const bufferSize = ctx.sampleRate * 0.35;
+  const buffer = ctx.createBuffer(1, bufferSize, ctx.sampleRate);
+  const data = buffer.getChannelData(0);
+  for (let i = 0; i < bufferSize; i++) {
+    data[i] = Math.random() * 2 - 1;
+  }
+
+  const noise = ctx.createBufferSource();
+  noise.buffer = buffer;
+
+  // Falling band for the whoosh
+  const filter = ctx.createBiquadFilter();
+  filter.type = 'bandpass';
+  filter.Q.value = 2;
+  filter.frequency.setValueAtTime(1800 * rate, t);
+  filter.frequency.exponentialRampToValueAtTime(400 * rate, t + 0.35);
+
+  const gain = ctx.createGain();
+  gain.gain.setValueAtTime(0.001, t);
+  gain.gain.linearRampToValueAtTime(0.25, t + 0.03);
+  gain.gain.exponentialRampToValueAtTime(0.01, t + 0.35);
+
+  noise.connect(filter);
+  filter.connect(gain);
+  gain.connect(output);
+
+  noise.start(t);
+  noise.stop(t + 0.35);
+  return [noise];
+};
+
+// Damage (Heavy Impact / Log Hit)
+const damage: SynthRecipe = (ctx, output, t, rate) => {
+  // 1. Noise buffer for "crunch/leaves"
+  const bufferSize = ctx.sampleRate * 0.3;
+  const buffer = ctx.createBuffer(1, bufferSize, ctx.sampleRate);
+  const data = buffer.getChannelData(0);
+  for (let i = 0; i < bufferSize; i++) {
+    data[i] = Math.random() * 2 - 1;
+  }
+
+  const noise = ctx.createBufferSource();
+  noise.buffer = buffer;
+
+  // 2. Low kick for impact
+  const osc = ctx.createOscillator();
+  osc.type = 'square';
+  osc.frequency.setValueAtTime(80 * rate, t);
+  osc.frequency.exponentialRampToValueAtTime(10, t + 0.3);
+
+  const oscGain = ctx.createGain();
+  oscGain.gain.setValueAtTime(0.4, t);
+  oscGain.gain.exponentialRampToValueAtTime(0.01, t + 0.3);
+
+  const noiseGain = ctx.createGain();
+  noiseGain.gain.setValueAtTime(0.3, t);
+  noiseGain.gain.exponentialRampToValueAtTime(0.01, t + 0.2);
+
+  // Lowpass filter for the noise to sound like a thud
+  const filter = ctx.createBiquadFilter();
+  filter.type = 'lowpass';
+  filter.frequency.value = 500;
+
+  noise.connect(filter);
+  filter.connect(noiseGain);
+  noiseGain.connect(output);
+
+  osc.connect(oscGain);
+  oscGain.connect(output);
+
+  osc.start(t);
+  osc.stop(t + 0.3);
+  noise.start(t);
+  noise.stop(t + 0.3);
+  return [osc, noise];
+};
+
+// Boar starts charging (Snort / Hoof scrape)
+const charge: SynthRecipe = (ctx, output, t, rate) => {
+  const osc = ctx.createOscillator();
+  osc.type = 'sawtooth';
+  osc.frequency.setValueAtTime(90 * rate, t);
+  osc.frequency.exponentialRampToValueAtTime(180 * rate, t + 0.35);
+
+  const filter = ctx.createBiquadFilter();
+  filter.type = 'lowpass';
+  filter.frequency.value = 700;
+
+  const gain = ctx.createGain();
+  gain.gain.setValueAtTime(0.001, t);
+  gain.gain.linearRampToValueAtTime(0.35, t + 0.05);
+  gain.gain.exponentialRampToValueAtTime(0.01, t + 0.4);
+
+  osc.connect(filter);
+  filter.connect(gain);
+  gain.connect(output);
+
+  osc.start(t);
+  osc.stop(t + 0.4);
+  return [osc];
+};
+
+// Spear throw (Whoosh)
+const throwSpear: SynthRecipe = (ctx, output, t, rate) => {
+  const osc = ctx.createOscillator();
+  osc.type = 'sawtooth';
+  osc.frequency.setValueAtTime(700 * rate, t);
+  osc.frequency.exponentialRampToValueAtTime(200 * rate, t + 0.2);
+
+  const filter = ctx.createBiquadFilter();
+  filter.type = 'lowpass';
+  filter.frequency.value = 1200;
+
+  const gain = ctx.createGain();
+  gain.gain.setValueAtTime(0.001, t);
+  gain.gain.linearRampToValueAtTime(0.15, t + 0.02);
+  gain.gain.exponentialRampToValueAtTime(0.01, t + 0.2);
+
+  osc.connect(filter);
+  filter.connect(gain);
+  gain.connect(output);
+
+  osc.start(t);
+  osc.stop(t + 0.2);
+  return [osc];
+};
+
+// Spear finds its prey (Thud and a falling squeal)
+const kill: SynthRecipe = (ctx, output, t, rate) => {
+  const thud = ctx.createOscillator();
+  thud.type = 'sine';
+  thud.frequency.setValueAtTime(160 * rate, t);
+  thud.frequency.exponentialRampToValueAtTime(50 * rate, t + 0.15);
+
+  const thudGain = ctx.createGain();
+  thudGain.gain.setValueAtTime(0.5, t);
+  thudGain.gain.exponentialRampToValueAtTime(0.01, t + 0.2);
+
+  const squeal = ctx.createOscillator();
+  squeal.type = 'square';
+  squeal.frequency.setValueAtTime(900 * rate, t + 0.05);
+  squeal.frequency.exponentialRampToValueAtTime(300 * rate, t + 0.4);
+
+  const squealGain = ctx.createGain();
+  squealGain.gain.setValueAtTime(0.001, t);
+  squealGain.gain.linearRampToValueAtTime(0.08, t + 0.07);
+  squealGain.gain.exponentialRampToValueAtTime(0.005, t + 0.4);
+
+  thud.connect(thudGain);
+  thudGain.connect(output);
+  squeal.connect(squealGain);
+  squealGain.connect(output);
+
+  thud.start(t);
+  thud.stop(t + 0.2);
+  squeal.start(t);
+  squeal.stop(t + 0.4);
+  return [thud, squeal];
+};
+
+// Spear glances off a rock (Stone clack)
+const spearBlocked: SynthRecipe = (ctx, output, t, rate) => {
+  const osc = ctx.createOscillator();
+  osc.type = 'triangle';
+  osc.frequency.setValueAtTime(1400 * rate, t);
+  osc.frequency.exponentialRampToValueAtTime(600 * rate, t + 0.06);
+
+  const gain = ctx.createGain();
+  gain.gain.setValueAtTime(0.25, t);
+  gain.gain.exponentialRampToValueAtTime(0.01, t + 0.12);
+
+  osc.connect(gain);
+  gain.connect(output);
+
+  osc.start(t);
+  osc.stop(t + 0.12);
+  return [osc];
+};
+
+// Power-up pickup (Rising spirit chime)
+const powerUp: SynthRecipe = (ctx, output, t, rate) => {
+  const notes = [523.25, 659.25, 783.99, 1046.5]; // C major arpeggio
+
+  return notes.map((f, i) => {
+    const start = t + i * 0.06;
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+
+    osc.type = 'triangle';
+    osc.frequency.setValueAtTime(f * rate, start);
+
+    gain.gain.setValueAtTime(0.001, t);
+    gain.gain.setValueAtTime(0.2, start);
+    gain.gain.exponentialRampToValueAtTime(0.01, start + 0.25);
+
+    osc.connect(gain);
+    gain.connect(output);
+
+    osc.start(start);
+    osc.stop(start + 0.25);
+    return osc;
+  });
+};
+
+// Near miss (Quick rising whistle past the ear)
+const nearMiss: SynthRecipe = (ctx, output, t, rate) => {
+  const osc = ctx.createOscillator();
+  const gain = ctx.createGain();
+
+  osc.type = 'sine';
+  osc.frequency.setValueAtTime(900 * rate, t);
+  osc.frequency.exponentialRampToValueAtTime(1800 * rate, t + 0.12);
+
+  gain.gain.setValueAtTime(0.001, t);
+  gain.gain.linearRampToValueAtTime(0.15, t + 0.02);
+  gain.gain.exponentialRampToValueAtTime(0.01, t + 0.15);
+
+  osc.connect(gain);
+  gain.connect(output);
+
+  osc.start(t);
+  osc.stop(t + 0.15);
+  return [osc];
+};
+
+// Boss attack warning (Two low horn blasts)
+const bossWarning: SynthRecipe = (ctx, output, t, rate) => {
+  return [0, 0.25].map(offset => {
+    const start = t + offset;
+    const osc = ctx.createOscillator();
+    osc.type = 'sawtooth';
+    osc.frequency.setValueAtTime(110 * rate, start);
+    osc.frequency.linearRampToValueAtTime(98 * rate, start + 0.2);
+
+    const filter = ctx.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.frequency.value = 600;
+
+    const gain = ctx.createGain();
+    gain.gain.setValueAtTime(0.001, t);
+    gain.gain.setValueAtTime(0.001, start);
+    gain.gain.linearRampToValueAtTime(0.3, start + 0.04);
+    gain.gain.exponentialRampToValueAtTime(0.01, start + 0.22);
+
+    osc.connect(filter);
+    filter.connect(gain);
+    gain.connect(output);
+
+    osc.start(start);
+    osc.stop(start + 0.22);
+    return osc;
+  });
+};
+
+// Boss wounded (Deep crack with a ringing overtone)
+const bossHit: SynthRecipe = (ctx, output, t, rate) => {
+  const thud = ctx.createOscillator();
+  thud.type = 'sine';
+  thud.frequency.setValueAtTime(120 * rate, t);
+  thud.frequency.exponentialRampToValueAtTime(30 * rate, t + 0.5);
+
+  const thudGain = ctx.createGain();
+  thudGain.gain.setValueAtTime(0.5, t);
+  thudGain.gain.exponentialRampToValueAtTime(0.01, t + 0.5);
+
+  const ring = ctx.createOscillator();
+  ring.type = 'triangle';
+  ring.frequency.setValueAtTime(880 * rate, t);
+
+  const ringGain = ctx.createGain();
+  ringGain.gain.setValueAtTime(0.15, t);
+  ringGain.gain.exponentialRampToValueAtTime(0.01, t + 0.6);
+
+  thud.connect(thudGain);
+  thudGain.connect(output);
+  ring.connect(ringGain);
+  ringGain.connect(output);
+
+  thud.start(t);
+  thud.stop(t + 0.5);
+  ring.start(t);
+  ring.stop(t + 0.6);
+  return [thud, ring];
+};
+
+export const SYNTH_RECIPES: Record<SoundCue, SynthRecipe> = {
+  gem,
+  letter,
+  jump: createJump(300, 500),
+  doubleJump: createJump(600, 900),
+  slide,
+  damage,
+  charge,
+  throw: throwSpear,
+  kill,
+  spearBlocked,
+  powerUp,
+  nearMiss,
+  bossWarning,
+  bossHit,
+};
@@ -4,19 +4,31 @@
 */
 
 
-import React, { useState, useEffect } from 'react';
-import { Heart, Zap, Trophy, MapPin, Feather, Rocket, ArrowUpCircle, Shield, Activity, PlusCircle, Play, ArrowLeft, ArrowRight, Sun } from 'lucide-react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Heart, Zap, Trophy, MapPin, Feather, Rocket, ArrowUpCircle, ArrowDownCircle, Crosshair, Flame, Magnet, Gem, ShieldCheck, Shield, Activity, PlusCircle, Play, ArrowLeft, ArrowRight, Sun, Download, Upload, Film, Crown, Skull, RotateCcw, Pause, Home, Gamepad2, Keyboard, Award, Lock, Settings, Volume2, VolumeX, LucideIcon } from 'lucide-react';
+import { shallow } from 'zustand/shallow';
 import { useStore } from '../../store';
-import { GameStatus, HUNTER_COLORS, ShopItem, RUN_SPEED_BASE } from '../../types';
+import { GameStatus, ShopItem, RUN_SPEED_BASE, InputAction, INPUT_ACTIONS, LANE_WIDTH, SPEAR_COOLDOWN, SPEAR_BUNDLE, PowerUpKind, POWERUP_KINDS, POWERUP_COLORS, POWERUP_DURATIONS, GEM_MULTIPLIER, COMBO_WINDOW, BOSS_NAME, BOSS_MAX_HEALTH, BOSS_HEALTH_PER_PHASE, BOSS_PHASE_COUNT } from '../../types';
 import { audio } from '../System/Audio';
+import { MAX_LEVEL, getLetterColor, getWordFromUrl, getLevelDefinition } from '../../levels';
+import { getDailySeed, getSeedFromUrl } from '../System/Random';
+import { replay, parseReplay, downloadReplay } from '../System/Replay';
+import { useRecords, CAUSE_LABELS } from '../System/Records';
+import { loadSavedRun, clearSavedRun, resumeSavedRun, saveRun } from '../System/SaveGame';
+import { useSimulation, useSimulationValue } from '../System/SimulationContext';
+import { GameSimulation, isOverheadHazard, getComboMultiplier } from '../System/Simulation';
+import { useGamepadInput } from '../System/Gamepad';
+import { useAchievements, ACHIEVEMENTS, getAchievement } from '../System/Achievements';
+import { useSettings, QUALITY_TIERS, SHADOW_QUALITIES, CAMERA_SENSITIVITY_RANGE } from '../System/Settings';
+import { usePerformance, PERFORMANCE_TIERS } from '../System/Performance';
+import { useBenchmark } from '../System/Benchmark';
+import { useDevTools, runDevCommand, getSpawnOddsLabel, DEV_TOOLS_ENABLED, DEV_CONSOLE_KEY } from '../System/DevTools';
+import { useInputBindings, triggerAction, ACTION_LABELS, BINDING_SLOTS, RESERVED_KEYS, getKeyLabel, normalizeKey } from '../System/Input';
 
 // Virtual Controls Component
 const VirtualControls: React.FC = () => {
-    const { hasImmortality } = useStore();
-
-    const triggerKey = (key: string) => {
-        window.dispatchEvent(new KeyboardEvent('keydown', { key }));
-    };
+    const { hasImmortality, spears } = useStore();
+    const simulation = useSimulation();
 
     return (
         <div className="absolute inset-0 pointer-events-none z-[60]">
@@ -24,13 +36,13 @@ const VirtualControls: React.FC = () => {
             <div className="absolute bottom-6 left-6 flex space-x-4 pointer-events-auto">
                 <button 
                     className="w-16 h-16 rounded-full bg-white/20 backdrop-blur-md border-2 border-white/30 flex items-center justify-center active:bg-white/40 active:scale-95 transition-all"
-                    onPointerDown={() => triggerKey('ArrowLeft')}
+                    onPointerDown={() => triggerAction(simulation, 'MOVE_LEFT')}
                 >
                     <ArrowLeft className="w-8 h-8 text-white" />
                 </button>
                 <button 
                     className="w-16 h-16 rounded-full bg-white/20 backdrop-blur-md border-2 border-white/30 flex items-center justify-center active:bg-white/40 active:scale-95 transition-all"
-                    onPointerDown={() => triggerKey('ArrowRight')}
+                    onPointerDown={() => triggerAction(simulation, 'MOVE_RIGHT')}
                 >
                     <ArrowRight className="w-8 h-8 text-white" />
                 </button>
@@ -38,20 +50,34 @@ const VirtualControls: React.FC = () => {
 
             {/* Bottom Right: Actions */}
             <div className="absolute bottom-6 right-6 flex flex-col space-y-4 pointer-events-auto items-center">
+                 {spears > 0 && (
+                     <button 
+                        className="w-12 h-12 rounded-full bg-stone-600/50 backdrop-blur-md border-2 border-stone-300 flex items-center justify-center active:bg-stone-600/80 active:scale-95 transition-all"
+                        onPointerDown={() => triggerAction(simulation, 'THROW')}
+                    >
+                        <Crosshair className="w-6 h-6 text-white" />
+                    </button>
+                 )}
                  {hasImmortality && (
                      <button 
                         className="w-12 h-12 rounded-full bg-yellow-500/50 backdrop-blur-md border-2 border-yellow-300 flex items-center justify-center active:bg-yellow-500/80 active:scale-95 transition-all mb-2"
-                        onPointerDown={() => triggerKey('Enter')}
+                        onPointerDown={() => triggerAction(simulation, 'ABILITY')}
                     >
                         <Shield className="w-6 h-6 text-white" />
                     </button>
                  )}
                 <button 
                     className="w-20 h-20 rounded-full bg-orange-600/50 backdrop-blur-md border-4 border-orange-400 flex items-center justify-center active:bg-orange-600/80 active:scale-95 transition-all"
-                    onPointerDown={() => triggerKey('ArrowUp')}
+                    onPointerDown={() => triggerAction(simulation, 'JUMP')}
                 >
                     <ArrowUpCircle className="w-10 h-10 text-white" />
                 </button>
+                <button 
+                    className="w-14 h-14 rounded-full bg-green-700/50 backdrop-blur-md border-2 border-green-400 flex items-center justify-center active:bg-green-700/80 active:scale-95 transition-all"
+                    onPointerDown={() => triggerAction(simulation, 'SLIDE')}
+                >
+                    <ArrowDownCircle className="w-7 h-7 text-white" />
+                </button>
             </div>
         </div>
     );
@@ -80,6 +106,13 @@ const SHOP_ITEMS: ShopItem[] = [
         cost: 1000,
         icon: PlusCircle
     },
+    {
+        id: 'SPEARS',
+        name: 'HUNTING SPEARS',
+        description: `${SPEAR_BUNDLE} more spears to throw at boars and spirits.`,
+        cost: 500,
+        icon: Crosshair
+    },
     {
         id: 'IMMORTAL',
         name: 'SPIRIT SHIELD',
@@ -93,8 +126,24 @@ const SHOP_ITEMS: ShopItem[] = [
 const ShopScreen: React.FC = () => {
     const { score, buyItem, closeShop, hasDoubleJump, hasImmortality } = useStore();
     const [items, setItems] = useState<ShopItem[]>([]);
+    const visitStarted = useRef(false);
 
     useEffect(() => {
+        // One visit per mount, even when StrictMode runs effects twice
+        if (visitStarted.current) return;
+        visitStarted.current = true;
+
+        // Playback: repeat whatever was bought on this visit, then move on
+        if (replay.isPlayback) {
+            replay.nextShopVisit().forEach(id => {
+                const item = SHOP_ITEMS.find(i => i.id === id);
+                if (item) buyItem(item.id, item.cost);
+            });
+            closeShop();
+            return;
+        }
+        replay.beginShopVisit();
+
         let pool = SHOP_ITEMS.filter(item => {
             if (item.id === 'DOUBLE_JUMP' && hasDoubleJump) return false;
             if (item.id === 'IMMORTAL' && hasImmortality) return false;
@@ -126,7 +175,7 @@ const ShopScreen: React.FC = () => {
                                  <h3 className="text-lg md:text-xl font-bold mb-2 text-orange-100">{item.name}</h3>
                                  <p className="text-orange-200/70 text-xs md:text-sm mb-4 h-10 md:h-12 flex items-center justify-center">{item.description}</p>
                                  <button 
-                                    onClick={() => buyItem(item.id as any, item.cost)}
+                                    onClick={() => { if (buyItem(item.id, item.cost)) replay.recordPurchase(item.id); }}
                                     disabled={!canAfford}
                                     className={`px-4 md:px-6 py-2 rounded font-bold w-full text-sm md:text-base ${canAfford ? 'bg-[#ff6f00] hover:bg-[#ff8f00] text-white' : 'bg-gray-700 cursor-not-allowed opacity-50'}`}
                                  >
@@ -148,9 +197,790 @@ const ShopScreen: React.FC = () => {
     );
 };
 
+// Export the run that just ended, or load someone else's to watch it back
+const ReplayControls: React.FC = () => {
+    const { startReplay } = useStore();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const log = parseReplay(await file.text());
+            setError(null);
+            audio.init();
+            startReplay(log);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Could not read that replay file.');
+        }
+    };
+
+    return (
+        <div className="flex flex-col items-center mt-6">
+            <div className="flex space-x-3">
+                <button 
+                    onClick={() => downloadReplay(replay.getLog())}
+                    className="flex items-center px-4 py-2 bg-black/40 text-orange-200 font-mono text-xs md:text-sm rounded border border-white/10 hover:bg-black/60 transition-colors"
+                >
+                    <Download className="mr-2 w-4 h-4" /> EXPORT REPLAY
+                </button>
+                <button 
+                    onClick={() => fileInputRef.current?.click()}
+                    className="flex items-center px-4 py-2 bg-black/40 text-orange-200 font-mono text-xs md:text-sm rounded border border-white/10 hover:bg-black/60 transition-colors"
+                >
+                    <Upload className="mr-2 w-4 h-4" /> WATCH REPLAY
+                </button>
+            </div>
+            <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+            {error && <div className="text-red-400 text-xs font-mono mt-2">{error}</div>}
+        </div>
+    );
+};
+
+// Key remapping. Picking a slot waits for the next key press; Escape cancels.
+const ControlsScreen: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+    const { bindings, setBinding, clearBinding, resetBindings } = useInputBindings();
+    const [listening, setListening] = useState<{ action: InputAction; slot: number } | null>(null);
+
+    useEffect(() => {
+        if (!listening) return;
+        const handleKeyDown = (e: KeyboardEvent) => {
+            // Capture phase, so the pause hotkey and gameplay bindings never see this press
+            e.preventDefault();
+            e.stopImmediatePropagation();
+            if (e.key === 'Escape') {
+                setListening(null);
+                return;
+            }
+            if (RESERVED_KEYS.includes(normalizeKey(e.key))) return;
+            setBinding(listening.action, listening.slot, e.key);
+            setListening(null);
+        };
+        window.addEventListener('keydown', handleKeyDown, true);
+        return () => window.removeEventListener('keydown', handleKeyDown, true);
+    }, [listening, setBinding]);
+
+    return (
+        <div className="absolute inset-0 bg-black/80 z-[110] text-white pointer-events-auto backdrop-blur-sm flex items-center justify-center p-4">
+            <div className="flex flex-col items-center w-full max-w-md">
+                <h2 className="flex items-center text-3xl md:text-4xl font-black text-orange-400 mb-6 font-serif tracking-widest">
+                    <Keyboard className="mr-3 w-8 h-8" /> CONTROLS
+                </h2>
+                <div className="w-full space-y-2 mb-6">
+                    {INPUT_ACTIONS.map(action => (
+                        <div key={action} className="flex items-center justify-between bg-[#3e2723]/80 rounded-lg border border-[#5d4037] px-3 py-2">
+                            <span className="text-sm md:text-base font-bold text-orange-200">{ACTION_LABELS[action]}</span>
+                            <div className="flex space-x-2">
+                                {[...Array(BINDING_SLOTS)].map((_, slot) => {
+                                    const key = bindings[action][slot];
+                                    const isListening = listening?.action === action && listening.slot === slot;
+                                    return (
+                                        <button
+                                            key={slot}
+                                            onClick={() => setListening({ action, slot })}
+                                            onContextMenu={(e) => { e.preventDefault(); clearBinding(action, slot); }}
+                                            className={`w-24 px-2 py-1 rounded font-mono text-xs border transition-colors ${isListening ? 'bg-orange-500 border-orange-300 text-black animate-pulse' : 'bg-black/40 border-white/10 text-orange-100 hover:bg-black/60'}`}
+                                        >
+                                            {isListening ? 'PRESS KEY' : key ? getKeyLabel(key) : '—'}
+                                        </button>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+                <p className="text-orange-200/40 text-[10px] md:text-xs font-mono mb-4 tracking-wider text-center">
+                    CLICK A SLOT, THEN PRESS A KEY. RIGHT-CLICK CLEARS. SWIPES AND ON-SCREEN BUTTONS ALWAYS WORK.
+                </p>
+                <div className="flex w-full space-x-3">
+                    <button
+                        onClick={resetBindings}
+                        className="flex-1 px-4 py-3 bg-[#3e2723] text-orange-200 font-bold rounded border border-[#5d4037] hover:bg-[#4e342e] transition-colors"
+                    >
+                        DEFAULTS
+                    </button>
+                    <button
+                        onClick={onClose}
+                        className="flex-1 px-4 py-3 bg-[#e65100] text-white font-bold rounded border border-[#ff6f00] hover:bg-[#ef6c00] transition-colors"
+                    >
+                        DONE
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+type Panel = 'CONTROLS' | 'ACHIEVEMENTS' | 'SETTINGS';
+
+const SettingRow: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+    <div className="flex items-center justify-between bg-[#3e2723]/80 rounded-lg border border-[#5d4037] px-3 py-2">
+        <span className="text-sm font-bold text-orange-200">{label}</span>
+        <div className="flex items-center space-x-1">{children}</div>
+    </div>
+);
+
+const SettingToggle: React.FC<{ value: boolean; onChange: (value: boolean) => void }> = ({ value, onChange }) => (
+    <button
+        onClick={() => onChange(!value)}
+        className={`w-16 px-2 py-1 rounded font-mono text-xs border transition-colors ${value ? 'bg-orange-600 border-orange-400 text-white' : 'bg-black/40 border-white/10 text-gray-400'}`}
+    >
+        {value ? 'ON' : 'OFF'}
+    </button>
+);
+
+function SettingChoice<T extends string>({ value, options, onChange }: { value: T; options: T[]; onChange: (value: T) => void }) {
+    return (
+        <>
+            {options.map(option => (
+                <button
+                    key={option}
+                    onClick={() => onChange(option)}
+                    className={`px-2 py-1 rounded font-mono text-[10px] md:text-xs border transition-colors ${option === value ? 'bg-orange-600 border-orange-400 text-white' : 'bg-black/40 border-white/10 text-gray-400 hover:bg-black/60'}`}
+                >
+                    {option}
+                </button>
+            ))}
+        </>
+    );
+}
+
+// Audio, graphics and camera options; changes apply immediately and persist
+const SettingsScreen: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+    const settings = useSettings();
+    const { update, resetSettings } = settings;
+
+    return (
+        <div className="absolute inset-0 bg-black/85 z-[110] text-white pointer-events-auto backdrop-blur-sm overflow-y-auto">
+            <div className="flex flex-col items-center min-h-full py-8 px-4 max-w-md mx-auto">
+                <h2 className="flex items-center text-3xl md:text-4xl font-black text-orange-400 mb-6 font-serif tracking-widest">
+                    <Settings className="mr-3 w-8 h-8" /> SETTINGS
+                </h2>
+
+                <div className="w-full space-y-2 mb-4">
+                    <div className="text-xs font-mono text-orange-300/70 tracking-widest text-left">AUDIO</div>
+                    <SettingRow label="VOLUME">
+                        <button onClick={() => update({ muted: !settings.muted })} className="mr-2 text-orange-200">
+                            {settings.muted ? <VolumeX className="w-5 h-5" /> : <Volume2 className="w-5 h-5" />}
+                        </button>
+                        <input
+                            type="range" min={0} max={1} step={0.05}
+                            value={settings.volume}
+                            onChange={(e) => update({ volume: Number(e.target.value), muted: false })}
+                            className="w-32 accent-orange-500"
+                        />
+                    </SettingRow>
+                    <SettingRow label="MUSIC"><SettingToggle value={settings.music} onChange={(music) => update({ music })} /></SettingRow>
+                </div>
+
+                <div className="w-full space-y-2 mb-4">
+                    <div className="text-xs font-mono text-orange-300/70 tracking-widest text-left">GRAPHICS</div>
+                    <SettingRow label="BLOOM"><SettingToggle value={settings.bloom} onChange={(bloom) => update({ bloom })} /></SettingRow>
+                    <SettingRow label="FILM GRAIN"><SettingToggle value={settings.noise} onChange={(noise) => update({ noise })} /></SettingRow>
+                    <SettingRow label="VIGNETTE"><SettingToggle value={settings.vignette} onChange={(vignette) => update({ vignette })} /></SettingRow>
+                    <SettingRow label="SHADOWS">
+                        <SettingChoice value={settings.shadows} options={SHADOW_QUALITIES} onChange={(shadows) => update({ shadows })} />
+                    </SettingRow>
+                    <SettingRow label="RESOLUTION">
+                        <SettingChoice value={settings.resolution} options={QUALITY_TIERS} onChange={(resolution) => update({ resolution })} />
+                    </SettingRow>
+                    <SettingRow label="PARTICLES">
+                        <SettingChoice value={settings.particles} options={QUALITY_TIERS} onChange={(particles) => update({ particles })} />
+                    </SettingRow>
+                    <SettingRow label="ADAPTIVE QUALITY"><SettingToggle value={settings.adaptiveQuality} onChange={(adaptiveQuality) => update({ adaptiveQuality })} /></SettingRow>
+                    <SettingRow label="PERFORMANCE READOUT"><SettingToggle value={settings.showPerformance} onChange={(showPerformance) => update({ showPerformance })} /></SettingRow>
+                    <SettingRow label="HITBOX OVERLAY"><SettingToggle value={settings.showHitboxes} onChange={(showHitboxes) => update({ showHitboxes })} /></SettingRow>
+                </div>
+
+                <div className="w-full space-y-2 mb-6">
+                    <div className="text-xs font-mono text-orange-300/70 tracking-widest text-left">CAMERA</div>
+                    <SettingRow label="FOLLOW SPEED">
+                        <input
+                            type="range" min={CAMERA_SENSITIVITY_RANGE[0]} max={CAMERA_SENSITIVITY_RANGE[1]} step={0.1}
+                            value={settings.cameraSensitivity}
+                            onChange={(e) => update({ cameraSensitivity: Number(e.target.value) })}
+                            className="w-32 accent-orange-500"
+                        />
+                        <span className="w-10 text-right font-mono text-xs text-orange-100">{settings.cameraSensitivity.toFixed(1)}x</span>
+                    </SettingRow>
+                    <SettingRow label="LANE SWAY"><SettingToggle value={settings.cameraSway} onChange={(cameraSway) => update({ cameraSway })} /></SettingRow>
+                </div>
+
+                <div className="flex w-full space-x-3">
+                    <button
+                        onClick={resetSettings}
+                        className="flex-1 px-4 py-3 bg-[#3e2723] text-orange-200 font-bold rounded border border-[#5d4037] hover:bg-[#4e342e] transition-colors"
+                    >
+                        DEFAULTS
+                    </button>
+                    <button
+                        onClick={onClose}
+                        className="flex-1 px-4 py-3 bg-[#e65100] text-white font-bold rounded border border-[#ff6f00] hover:bg-[#ef6c00] transition-colors"
+                    >
+                        DONE
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const PauseOverlay: React.FC<{ onOpenPanel: (panel: Panel) => void }> = ({ onOpenPanel }) => {
+    const { resumeGame, restartGame, quitToMenu } = useStore();
+    const simulation = useSimulation();
+
+    // Quitting keeps the run resumable from the menu
+    const handleQuit = () => {
+        saveRun(simulation);
+        quitToMenu();
+    };
+
+    return (
+        <div className="absolute inset-0 bg-black/70 z-[100] text-white pointer-events-auto backdrop-blur-sm flex items-center justify-center p-4">
+            <div className="flex flex-col items-center w-full max-w-xs space-y-3">
+                <h2 className="text-4xl md:text-5xl font-black text-orange-400 mb-4 font-serif tracking-widest">PAUSED</h2>
+                <button 
+                    onClick={() => { audio.init(); resumeGame(); }}
+                    className="w-full flex items-center justify-center px-6 py-3 bg-[#1b5e20] text-white font-bold text-lg rounded border border-[#2e7d32] hover:scale-105 transition-all"
+                >
+                    <Play className="mr-2 w-5 h-5" fill="white" /> RESUME
+                </button>
+                <button 
+                    onClick={() => { audio.init(); clearSavedRun(); restartGame(); }}
+                    className="w-full flex items-center justify-center px-6 py-3 bg-[#e65100] text-white font-bold text-lg rounded border border-[#ff6f00] hover:scale-105 transition-all"
+                >
+                    <RotateCcw className="mr-2 w-5 h-5" /> RESTART
+                </button>
+                <button 
+                    onClick={() => onOpenPanel('SETTINGS')}
+                    className="w-full flex items-center justify-center px-6 py-3 bg-[#3e2723] text-orange-200 font-bold text-lg rounded border border-[#5d4037] hover:scale-105 transition-all"
+                >
+                    <Settings className="mr-2 w-5 h-5" /> SETTINGS
+                </button>
+                <button 
+                    onClick={() => onOpenPanel('CONTROLS')}
+                    className="w-full flex items-center justify-center px-6 py-3 bg-[#3e2723] text-orange-200 font-bold text-lg rounded border border-[#5d4037] hover:scale-105 transition-all"
+                >
+                    <Keyboard className="mr-2 w-5 h-5" /> CONTROLS
+                </button>
+                <button 
+                    onClick={handleQuit}
+                    className="w-full flex items-center justify-center px-6 py-3 bg-[#3e2723] text-orange-200 font-bold text-lg rounded border border-[#5d4037] hover:scale-105 transition-all"
+                >
+                    <Home className="mr-2 w-5 h-5" /> QUIT TO MENU
+                </button>
+                <p className="text-orange-200/40 text-[10px] md:text-xs font-mono pt-2 tracking-wider">ESC / P TO RESUME</p>
+            </div>
+        </div>
+    );
+};
+
+// Best local runs, shown on the menu
+const Leaderboard: React.FC = () => {
+    const { topRuns } = useRecords();
+
+    if (topRuns.length === 0) {
+        return (
+            <p className="text-orange-200/40 text-[10px] md:text-xs font-mono mt-6 tracking-wider">
+                NO HUNTS RECORDED YET.
+            </p>
+        );
+    }
+
+    return (
+        <div className="w-full mt-6">
+            <div className="flex items-center justify-center text-orange-300 text-xs font-mono tracking-widest mb-2">
+                <Crown className="mr-2 w-4 h-4" /> GREATEST HUNTS
+            </div>
+            <div className="space-y-1">
+                {topRuns.slice(0, 5).map((run, i) => (
+                    <div key={run.date} className="flex items-center justify-between bg-black/30 rounded px-3 py-1 text-xs font-mono text-orange-100/80">
+                        <span className="w-5 text-left text-orange-400">{i + 1}</span>
+                        <span className="flex-1 text-left font-bold">{run.score.toLocaleString()}</span>
+                        <span className="w-16">ZONE {run.level}</span>
+                        <span className="w-16 text-right">{run.distance} m</span>
+                        <span className="w-20 text-right text-orange-200/50">{new Date(run.date).toLocaleDateString()}</span>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+// End screen callout when the run beat the stored best
+const PersonalBestBanner: React.FC = () => {
+    const { isPersonalBest } = useRecords();
+    const { isReplay } = useStore();
+
+    if (!isPersonalBest || isReplay) return null;
+
+    return (
+        <div className="flex items-center justify-center text-yellow-300 font-black text-lg md:text-2xl tracking-widest mb-6 animate-pulse">
+            <Crown className="mr-2 w-6 h-6 fill-yellow-400" /> NEW PERSONAL BEST
+        </div>
+    );
+};
+
+// Every achievement with its progress, from the menu
+const AchievementsGallery: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+    const { progress, unlockedAt } = useAchievements();
+    const unlockedCount = ACHIEVEMENTS.filter(a => unlockedAt[a.id]).length;
+
+    return (
+        <div className="absolute inset-0 bg-black/85 z-[110] text-white pointer-events-auto backdrop-blur-sm overflow-y-auto">
+            <div className="flex flex-col items-center min-h-full py-8 px-4 max-w-lg mx-auto">
+                <h2 className="flex items-center text-3xl md:text-4xl font-black text-orange-400 mb-2 font-serif tracking-widest">
+                    <Award className="mr-3 w-8 h-8" /> FEATS
+                </h2>
+                <p className="text-orange-200/60 font-mono text-xs tracking-widest mb-6">{unlockedCount} / {ACHIEVEMENTS.length} EARNED</p>
+                <div className="w-full space-y-2 mb-6">
+                    {ACHIEVEMENTS.map(achievement => {
+                        const isUnlocked = !!unlockedAt[achievement.id];
+                        const current = progress[achievement.id] ?? 0;
+                        return (
+                            <div key={achievement.id} className={`flex items-center rounded-lg border px-3 py-2 ${isUnlocked ? 'bg-[#3e2723]/90 border-yellow-600' : 'bg-black/40 border-white/10'}`}>
+                                {isUnlocked
+                                    ? <Award className="w-7 h-7 mr-3 text-yellow-400 flex-shrink-0" />
+                                    : <Lock className="w-7 h-7 mr-3 text-gray-600 flex-shrink-0" />}
+                                <div className="flex-1 text-left">
+                                    <div className={`font-bold text-sm md:text-base ${isUnlocked ? 'text-yellow-300' : 'text-gray-300'}`}>{achievement.name}</div>
+                                    <div className="text-xs text-gray-400">{achievement.description}</div>
+                                    {!isUnlocked && achievement.goal > 1 && (
+                                        <div className="flex items-center mt-1">
+                                            <div className="flex-1 h-1.5 bg-gray-800 rounded-full overflow-hidden mr-2">
+                                                <div className="h-full bg-orange-500" style={{ width: `${(current / achievement.goal) * 100}%` }} />
+                                            </div>
+                                            <span className="text-[10px] font-mono text-gray-500">{current} / {achievement.goal}</span>
+                                        </div>
+                                    )}
+                                </div>
+                                {isUnlocked && (
+                                    <span className="text-[10px] font-mono text-yellow-200/50 ml-2">{new Date(unlockedAt[achievement.id]).toLocaleDateString()}</span>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+                <button
+                    onClick={onClose}
+                    className="w-full max-w-xs px-4 py-3 bg-[#e65100] text-white font-bold rounded border border-[#ff6f00] hover:bg-[#ef6c00] transition-colors"
+                >
+                    BACK
+                </button>
+            </div>
+        </div>
+    );
+};
+
+const HIT_FLASH_MS = 250;
+const ZONE_BANNER_MS = 2000;
+
+// Screen-space reactions to game events: a red flash on damage, a banner on entering a zone
+// or when the boss rises and changes phase
+const EventFeedback: React.FC = () => {
+    const simulation = useSimulation();
+    const [isFlashing, setIsFlashing] = useState(false);
+    const [zoneBanner, setZoneBanner] = useState<number | null>(null);
+    const [bossBanner, setBossBanner] = useState<{ title: string; subtitle: string } | null>(null);
+
+    useEffect(() => {
+        const timers: ReturnType<typeof setTimeout>[] = [];
+        const offs = [
+            simulation.bus.on('hit', (e) => {
+                if (e.isBlocked) return;
+                setIsFlashing(true);
+                timers.push(setTimeout(() => setIsFlashing(false), HIT_FLASH_MS));
+            }),
+            simulation.bus.on('level-up', (e) => {
+                setZoneBanner(e.value);
+                timers.push(setTimeout(() => setZoneBanner(null), ZONE_BANNER_MS));
+            }),
+            simulation.bus.on('boss-start', () => {
+                setBossBanner({ title: BOSS_NAME, subtitle: 'AWAKENS' });
+                timers.push(setTimeout(() => setBossBanner(null), ZONE_BANNER_MS));
+            }),
+            simulation.bus.on('boss-phase', (e) => {
+                setBossBanner({ title: `PHASE ${e.value}`, subtitle: e.value === BOSS_PHASE_COUNT ? 'IT IS FURIOUS' : 'IT GROWS ANGRIER' });
+                timers.push(setTimeout(() => setBossBanner(null), ZONE_BANNER_MS));
+            }),
+        ];
+        return () => {
+            offs.forEach(off => off());
+            timers.forEach(clearTimeout);
+        };
+    }, [simulation]);
+
+    return (
+        <>
+            <div className={`absolute inset-0 pointer-events-none z-[55] transition-opacity duration-200 shadow-[inset_0_0_120px_rgba(255,0,0,0.7)] ${isFlashing ? 'opacity-100' : 'opacity-0'}`} />
+            {zoneBanner !== null && (
+                <div className="absolute top-1/3 left-1/2 -translate-x-1/2 pointer-events-none z-[55] text-center">
+                    <div className="text-4xl md:text-6xl font-black text-orange-400 font-serif tracking-widest drop-shadow-lg animate-pulse">ZONE {zoneBanner}</div>
+                    <div className="text-sm md:text-base font-mono text-orange-200/80 tracking-widest">{getLevelDefinition(zoneBanner).name.toUpperCase()}</div>
+                </div>
+            )}
+            {bossBanner !== null && (
+                <div className="absolute top-1/3 left-1/2 -translate-x-1/2 pointer-events-none z-[55] text-center w-max max-w-[90vw]">
+                    <div className="text-3xl md:text-5xl font-black text-lime-400 font-serif tracking-widest drop-shadow-lg animate-pulse">{bossBanner.title}</div>
+                    <div className="text-sm md:text-base font-mono text-lime-200/80 tracking-widest">{bossBanner.subtitle}</div>
+                </div>
+            )}
+        </>
+    );
+};
+
+const SLIDE_HINT_RANGE = 45; // Distance ahead at which an overhead hazard in your lane gets the hint
+
+// Not sliding yet, with a low branch or vine coming down the player's lane
+const isSlideHintDue = ({ player, objects }: GameSimulation) => player.slideTimer <= 0 && objects.some(obj =>
+    obj.active && isOverheadHazard(obj.type) && Math.abs(obj.position[0] - player.lane * LANE_WIDTH) < 0.1 &&
+    obj.position[2] < 0 && obj.position[2] > -SLIDE_HINT_RANGE
+);
+
+// "Swipe down" prompt while a low branch or vine is coming at the player
+const SlideHint: React.FC = () => {
+    const slideKey = useInputBindings(state => state.bindings.SLIDE.find(key => key !== ''));
+    const isVisible = useSimulationValue(isSlideHintDue, 100);
+
+    if (!isVisible) return null;
+
+    return (
+        <div className="absolute bottom-1/3 left-1/2 -translate-x-1/2 pointer-events-none z-[55] flex items-center text-green-300 font-bold text-lg md:text-2xl tracking-widest drop-shadow-md animate-pulse">
+            <ArrowDownCircle className="mr-2 w-6 h-6 md:w-8 md:h-8" /> SWIPE DOWN{slideKey ? ` / ${getKeyLabel(slideKey)}` : ''} TO SLIDE
+        </div>
+    );
+};
+
+const POWERUP_LABELS: Record<PowerUpKind, { label: string; icon: LucideIcon }> = {
+    MAGNET: { label: 'MAGNET', icon: Magnet },
+    MULTIPLIER: { label: `${GEM_MULTIPLIER}X ARTIFACTS`, icon: Gem },
+    SHIELD: { label: 'SHIELD', icon: ShieldCheck },
+};
+
+// One draining bar per power-up in effect; the timers live in the simulation and stop with it
+const PowerUpTimers: React.FC = () => {
+    const timers = useSimulationValue(simulation => ({ ...simulation.player.powerUps }), 50, shallow);
+
+    const active = POWERUP_KINDS.filter(kind => timers[kind] > 0);
+    if (active.length === 0) return null;
+
+    return (
+        <div className="mt-3 flex flex-col space-y-2">
+            {active.map(kind => {
+                const { label, icon: Icon } = POWERUP_LABELS[kind];
+                const color = POWERUP_COLORS[kind];
+                return (
+                    <div key={kind} className="flex flex-col">
+                        <div className="flex items-center text-[10px] md:text-xs font-mono font-bold tracking-widest drop-shadow-sm" style={{ color }}>
+                            <Icon className="mr-1 w-3 h-3 md:w-4 md:h-4" /> {label}
+                        </div>
+                        <div className="w-24 md:w-32 h-1.5 bg-gray-900/80 rounded-full overflow-hidden">
+                            <div className="h-full" style={{ width: `${(timers[kind] / POWERUP_DURATIONS[kind]) * 100}%`, backgroundColor: color }} />
+                        </div>
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
+
+// Spears left, with the throw cooldown filling in under them
+const SpearAmmo: React.FC = () => {
+    const spears = useStore(state => state.spears);
+    const cooldown = useSimulationValue(simulation => simulation.player.throwCooldown, 50);
+
+    return (
+        <div className="flex flex-col items-end mb-2">
+            <div className={`flex items-center font-mono font-bold text-sm md:text-lg ${spears > 0 ? 'text-stone-200' : 'text-gray-600'} drop-shadow-sm`}>
+                <Crosshair className="mr-1 w-4 h-4 md:w-5 md:h-5" /> {spears}
+            </div>
+            <div className="w-12 md:w-16 h-1 bg-gray-900/80 rounded-full overflow-hidden">
+                <div className="h-full bg-stone-300" style={{ width: `${(1 - cooldown / SPEAR_COOLDOWN) * 100}%` }} />
+            </div>
+        </div>
+    );
+};
+
+// Takes the letters' place at the top once the word is spelled. One segment per weak point,
+// grouped by phase, and a hint until the first one lands.
+const BossHealthBar: React.FC = () => {
+    const boss = useSimulationValue(({ boss }) => (boss ? { health: boss.health, phase: boss.phase } : null), 100, shallow);
+
+    if (!boss) return null;
+
+    return (
+        <div className="absolute top-16 md:top-24 left-1/2 transform -translate-x-1/2 flex flex-col items-center w-64 md:w-96 max-w-[90vw]">
+            <div className="flex justify-between w-full text-xs md:text-sm font-mono font-bold tracking-widest text-lime-300 drop-shadow-sm">
+                <span className="flex items-center"><Skull className="mr-1 w-4 h-4" /> {BOSS_NAME}</span>
+                <span>PHASE {boss.phase} / {BOSS_PHASE_COUNT}</span>
+            </div>
+            <div className="flex w-full gap-1 mt-1">
+                {Array.from({ length: BOSS_PHASE_COUNT }, (_, phase) => (
+                    <div key={phase} className="flex flex-1 gap-px h-3 md:h-4 bg-gray-900/80 border border-gray-600 rounded-sm overflow-hidden">
+                        {Array.from({ length: BOSS_HEALTH_PER_PHASE }, (_, i) => {
+                            // Empties from the right, one group per phase
+                            const segment = phase * BOSS_HEALTH_PER_PHASE + i;
+                            return <div key={i} className={`flex-1 transition-colors duration-300 ${segment < boss.health ? 'bg-gradient-to-b from-lime-400 to-green-700' : 'bg-transparent'}`} />;
+                        })}
+                    </div>
+                ))}
+            </div>
+            {boss.health === BOSS_MAX_HEALTH && (
+                <div className="mt-1 text-[10px] md:text-xs font-mono tracking-widest text-yellow-200/80">GRAB THE GLOWING SHARDS IT DROPS</div>
+            )}
+        </div>
+    );
+};
+
+const COMBO_CALLOUT_MS = 800;
+
+// Current chain and the gem multiplier it earns, with the time left to extend it draining underneath
+const ComboMeter: React.FC = () => {
+    const simulation = useSimulation();
+    const chain = useSimulationValue(({ player }) => ({ combo: player.combo, timer: player.comboTimer }), 50, shallow);
+    const [callout, setCallout] = useState<'NEAR MISS' | 'CHAIN BROKEN' | null>(null);
+
+    useEffect(() => {
+        let calloutTimer: ReturnType<typeof setTimeout> | undefined;
+        const show = (text: 'NEAR MISS' | 'CHAIN BROKEN') => {
+            setCallout(text);
+            clearTimeout(calloutTimer);
+            calloutTimer = setTimeout(() => setCallout(null), COMBO_CALLOUT_MS);
+        };
+        const offs = [
+            simulation.bus.on('near-miss', () => show('NEAR MISS')),
+            simulation.bus.on('combo-end', () => show('CHAIN BROKEN')),
+        ];
+        return () => {
+            offs.forEach(off => off());
+            clearTimeout(calloutTimer);
+        };
+    }, [simulation]);
+
+    if (chain.combo === 0 && callout === null) return null;
+
+    const multiplier = getComboMultiplier(chain.combo);
+    const isLapsing = chain.timer < 1;
+
+    return (
+        <div className="mt-3 flex flex-col">
+            {chain.combo > 0 && (
+                <>
+                    <div className={`flex items-center font-mono font-bold drop-shadow-sm ${multiplier > 1 ? 'text-amber-300' : 'text-orange-200'}`}>
+                        <Flame className="mr-1 w-4 h-4 md:w-5 md:h-5" />
+                        <span className="text-lg md:text-2xl">x{multiplier}</span>
+                        <span className="ml-2 text-[10px] md:text-xs tracking-widest">{chain.combo} CHAIN</span>
+                    </div>
+                    <div className="w-24 md:w-32 h-1.5 bg-gray-900/80 rounded-full overflow-hidden">
+                        <div className={`h-full ${isLapsing ? 'bg-red-500 animate-pulse' : 'bg-amber-400'}`} style={{ width: `${(chain.timer / COMBO_WINDOW) * 100}%` }} />
+                    </div>
+                </>
+            )}
+            {callout && (
+                <div className={`mt-1 text-[10px] md:text-xs font-mono font-bold tracking-widest drop-shadow-sm ${callout === 'NEAR MISS' ? 'text-green-300' : 'text-red-400'}`}>
+                    {callout}
+                </div>
+            )}
+        </div>
+    );
+};
+
+const TOAST_DURATION_MS = 3500;
+
+// Unlock notifications; shown one at a time over whatever screen is up
+export const AchievementToasts: React.FC = () => {
+    const { toasts, dismissToast } = useAchievements();
+    const current = toasts[0];
+
+    useEffect(() => {
+        if (!current) return;
+        const timer = setTimeout(() => dismissToast(current), TOAST_DURATION_MS);
+        return () => clearTimeout(timer);
+    }, [current, dismissToast]);
+
+    const achievement = current ? getAchievement(current) : undefined;
+    if (!achievement) return null;
+
+    return (
+        <div key={achievement.id} className="absolute top-1/4 left-1/2 -translate-x-1/2 z-[160] pointer-events-none flex items-center bg-[#2d1b0e]/95 border-2 border-yellow-500 rounded-xl px-4 py-2 shadow-[0_0_20px_rgba(255,215,0,0.4)] animate-pulse">
+            <Award className="w-8 h-8 text-yellow-400 mr-3" />
+            <div className="text-left">
+                <div className="text-[10px] font-mono text-yellow-200/70 tracking-widest">FEAT EARNED</div>
+                <div className="text-sm md:text-base font-black text-yellow-300">{achievement.name}</div>
+            </div>
+        </div>
+    );
+};
+
+// Debug corner readout of the performance governor
+export const PerformanceReadout: React.FC = () => {
+    const showPerformance = useSettings(state => state.showPerformance);
+    const adaptiveQuality = useSettings(state => state.adaptiveQuality);
+    const { tier, fps } = usePerformance();
+
+    if (!showPerformance) return null;
+
+    return (
+        <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-[150] pointer-events-none bg-black/60 border border-white/20 rounded px-2 py-1 font-mono text-[10px] text-green-300">
+            {fps} FPS · TIER {adaptiveQuality ? `${tier} ${PERFORMANCE_TIERS[tier].name}` : 'FIXED'}
+        </div>
+    );
+};
+
+const DEV_LOG_LINES = 12;
+
+// Development builds only: backtick (or ?dev) opens it. Stats refresh a few times a second.
+export const DevConsole: React.FC = () => {
+    const simulation = useSimulation();
+    const { isOpen, setOpen } = useDevTools();
+    const fps = usePerformance(state => state.fps);
+    const [, setTick] = useState(0);
+    const [input, setInput] = useState('');
+    const [log, setLog] = useState<string[]>(['Type help for commands']);
+
+    useEffect(() => {
+        if (!DEV_TOOLS_ENABLED) return;
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key !== DEV_CONSOLE_KEY) return;
+            e.preventDefault();
+            setOpen(!useDevTools.getState().isOpen);
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [setOpen]);
+
+    // God mode outlives the run it was switched on in, and so does the cheat mark
+    useEffect(() => useStore.subscribe((state, prev) => {
+        if (state.runId !== prev.runId && simulation.godMode) useDevTools.getState().markCheated();
+    }), [simulation]);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        const timer = setInterval(() => setTick(t => t + 1), 250);
+        return () => clearInterval(timer);
+    }, [isOpen]);
+
+    if (!DEV_TOOLS_ENABLED || !isOpen) return null;
+
+    const { level, speed } = useStore.getState();
+    const activeObjects = simulation.objects.filter(obj => obj.active).length;
+
+    const run = (line: string) => {
+        const output = runDevCommand(simulation, line);
+        setLog(prev => [...prev, `> ${line}`, ...(output ? output.split('\n') : [])].slice(-DEV_LOG_LINES));
+    };
+
+    return (
+        <div
+            className="absolute top-16 right-4 z-[170] w-80 max-w-[calc(100%-2rem)] bg-black/85 border border-green-500/40 rounded p-2 font-mono text-[10px] text-green-300 pointer-events-auto"
+            onPointerDown={(e) => e.stopPropagation()}
+            onPointerUp={(e) => e.stopPropagation()}
+        >
+            <div className="flex justify-between text-yellow-300 font-bold mb-1">
+                <span>DEV CONSOLE</span>
+                <span>{simulation.godMode ? 'GOD MODE' : ''}</span>
+            </div>
+            <div className="grid grid-cols-2 gap-x-2">
+                <span>FPS {fps}</span>
+                <span>OBJECTS {activeObjects}</span>
+                <span>DIST {simulation.distanceTraveled.toFixed(1)}</span>
+                <span>NEXT LETTER {simulation.nextLetterDistance.toFixed(1)}</span>
+                <span>LEVEL {level}</span>
+                <span>SPEED {speed.toFixed(1)}</span>
+            </div>
+            <div className="mt-1 text-green-300/70 whitespace-pre-wrap">{getSpawnOddsLabel(level)}</div>
+            <div className="mt-2 max-h-40 overflow-y-auto whitespace-pre-wrap border-t border-white/10 pt-1">
+                {log.map((line, i) => <div key={i}>{line}</div>)}
+            </div>
+            <input
+                autoFocus
+                value={input}
+                onChange={(e) => setInput(e.target.value)}
+                onKeyDown={(e) => {
+                    // Typing here mustn't steer the player or pause the game
+                    e.stopPropagation();
+                    if (e.key === DEV_CONSOLE_KEY) {
+                        e.preventDefault();
+                        setOpen(false);
+                    } else if (e.key === 'Enter') {
+                        run(input);
+                        setInput('');
+                    }
+                }}
+                className="mt-1 w-full bg-black/60 border border-green-500/40 rounded px-1 py-0.5 text-green-200 outline-none"
+                placeholder="help"
+                spellCheck={false}
+            />
+        </div>
+    );
+};
+
+// Only mounted in benchmark mode, in place of the HUD
+export const BenchmarkReadout: React.FC = () => {
+    const { phase, result } = useBenchmark();
+
+    return (
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 z-[150] pointer-events-none bg-black/70 border border-white/20 rounded px-3 py-2 font-mono text-xs text-green-300 text-center">
+            <div className="font-bold text-yellow-300 mb-1">BENCHMARK · 9 LANES</div>
+            {phase === 'WARMUP' && <div>Warming up...</div>}
+            {phase === 'RUNNING' && <div>Measuring...</div>}
+            {result && (
+                <>
+                    <div>{result.fps} FPS · {result.averageFrameMs} ms avg · {result.p95FrameMs} ms p95 · {result.worstFrameMs} ms worst</div>
+                    <div>{result.drawCalls} draw calls · {result.objects} objects</div>
+                </>
+            )}
+        </div>
+    );
+};
+
+// Owns gamepad polling, so it stays mounted on every screen; shows the pads currently plugged in
+export const GamepadIndicator: React.FC = () => {
+    const simulation = useSimulation();
+    const connected = useGamepadInput(simulation);
+
+    if (connected.length === 0) return null;
+
+    return (
+        <div className="absolute bottom-4 left-4 z-[150] pointer-events-none flex items-center space-x-2 bg-black/50 border border-white/20 rounded-full px-3 py-1" title={connected.join(', ')}>
+            <Gamepad2 className="w-4 h-4 text-green-400" />
+            <span className="text-xs font-bold text-green-400">{connected.length > 1 ? `${connected.length} PADS` : 'PAD'}</span>
+        </div>
+    );
+};
+
 export const HUD: React.FC = () => {
-  const { score, lives, maxLives, collectedLetters, status, level, restartGame, startGame, gemsCollected, distance, isImmortalityActive, speed } = useStore();
-  const target = ['H', 'U', 'N', 'T', 'E', 'R'];
+  const { score, lives, maxLives, collectedLetters, status, level, restartGame, startGame, gemsCollected, maxCombo, distance, isImmortalityActive, speed, seed, isReplay, targetWord, runWord, lastHitBy, isBossFight, pauseGame } = useStore();
+
+  const simulation = useSimulation();
+  const [panel, setPanel] = useState<Panel | null>(null);
+
+  // Sub-screens belong to the screen they were opened from
+  useEffect(() => setPanel(null), [status]);
+
+  // Escape / P toggle pause
+  useEffect(() => {
+      const handleKeyDown = (e: KeyboardEvent) => {
+          if (e.key !== 'Escape' && e.key !== 'p' && e.key !== 'P') return;
+          const { status, pauseGame, resumeGame } = useStore.getState();
+          if (status === GameStatus.PLAYING) pauseGame();
+          else if (status === GameStatus.PAUSED) resumeGame();
+      };
+      window.addEventListener('keydown', handleKeyDown);
+      return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Only looked up on the menu; a save is written mid-run and cleared when the run ends
+  const savedRun = useMemo(() => status === GameStatus.MENU ? loadSavedRun() : null, [status]);
+
+  // A fresh run replaces any unfinished one
+  const beginRun = (runSeed?: number) => {
+      audio.init();
+      clearSavedRun();
+      startGame(runSeed, getWordFromUrl());
+  };
 
   const containerClass = "absolute inset-0 pointer-events-none flex flex-col justify-between p-4 md:p-8 z-50";
 
@@ -158,11 +988,27 @@ export const HUD: React.FC = () => {
       return <ShopScreen />;
   }
 
+  if (panel === 'CONTROLS') {
+      return <ControlsScreen onClose={() => setPanel(null)} />;
+  }
+
+  if (panel === 'ACHIEVEMENTS') {
+      return <AchievementsGallery onClose={() => setPanel(null)} />;
+  }
+
+  if (panel === 'SETTINGS') {
+      return <SettingsScreen onClose={() => setPanel(null)} />;
+  }
+
+  if (status === GameStatus.PAUSED) {
+      return <PauseOverlay onOpenPanel={setPanel} />;
+  }
+
   if (status === GameStatus.MENU) {
       return (
           <div className="absolute inset-0 flex items-center justify-center z-[100] bg-[#1b1b1b]/90 backdrop-blur-sm p-4 pointer-events-auto">
               <div className="relative w-full max-w-md rounded-3xl overflow-hidden shadow-2xl border border-orange-900/50">
-                <div className="relative w-full bg-[#2d1b0e] h-[500px] flex flex-col items-center justify-center text-center p-6">
+                <div className="relative w-full bg-[#2d1b0e] min-h-[500px] flex flex-col items-center justify-center text-center p-6">
                      
                      <div className="mb-6">
                         <Sun className="w-20 h-20 text-orange-500 animate-spin-slow mx-auto" />
@@ -175,12 +1021,47 @@ export const HUD: React.FC = () => {
                          ANCESTRAL RUN
                      </p>
                      
+                     {savedRun && (
+                        <button 
+                          onClick={() => { audio.init(); resumeSavedRun(simulation, savedRun); }}
+                          className="w-full mb-3 px-6 py-3 bg-[#1b5e20] text-white font-black text-lg rounded-xl border border-[#2e7d32] hover:bg-[#2e7d32] transition-all flex items-center justify-center"
+                        >
+                            <RotateCcw className="mr-2 w-5 h-5" /> CONTINUE RUN
+                            <span className="ml-2 text-xs font-mono text-green-200/80">ZONE {savedRun.run.level} · {savedRun.run.score.toLocaleString()}</span>
+                        </button>
+                     )}
                      <button 
-                          onClick={() => { audio.init(); startGame(); }}
+                          onClick={() => beginRun(getSeedFromUrl())}
                           className="w-full px-6 py-4 bg-[#e65100] text-white font-black text-xl rounded-xl hover:bg-[#ef6c00] transition-all shadow-[0_4px_0_#bf360c] active:shadow-none active:translate-y-[4px]"
                         >
                             BEGIN HUNT
                         </button>
+                     <button 
+                          onClick={() => beginRun(getDailySeed())}
+                          className="w-full mt-3 px-6 py-2 bg-[#3e2723] text-orange-200 font-bold text-sm rounded-xl border border-[#5d4037] hover:bg-[#4e342e] transition-all tracking-widest"
+                        >
+                            HUNT OF THE DAY
+                        </button>
+                     <div className="flex w-full mt-3 space-x-2">
+                        <button 
+                          onClick={() => setPanel('CONTROLS')}
+                          className="flex-1 px-2 py-2 bg-[#3e2723] text-orange-200 font-bold text-xs rounded-xl border border-[#5d4037] hover:bg-[#4e342e] transition-all tracking-widest flex items-center justify-center"
+                        >
+                            <Keyboard className="mr-2 w-4 h-4" /> CONTROLS
+                        </button>
+                        <button 
+                          onClick={() => setPanel('ACHIEVEMENTS')}
+                          className="flex-1 px-2 py-2 bg-[#3e2723] text-orange-200 font-bold text-xs rounded-xl border border-[#5d4037] hover:bg-[#4e342e] transition-all tracking-widest flex items-center justify-center"
+                        >
+                            <Award className="mr-2 w-4 h-4" /> FEATS
+                        </button>
+                        <button 
+                          onClick={() => setPanel('SETTINGS')}
+                          className="flex-1 px-2 py-2 bg-[#3e2723] text-orange-200 font-bold text-xs rounded-xl border border-[#5d4037] hover:bg-[#4e342e] transition-all tracking-widest flex items-center justify-center"
+                        >
+                            <Settings className="mr-2 w-4 h-4" /> SETTINGS
+                        </button>
+                     </div>
                         
                         <p className="text-orange-200/40 text-[10px] md:text-xs font-mono mt-6 tracking-wider">
                             START WITH 300 POINTS.
@@ -188,6 +1069,8 @@ export const HUD: React.FC = () => {
                         <p className="text-orange-200/40 text-[10px] md:text-xs font-mono tracking-wider">
                             DODGE BOARS & MONSTERS (-100).
                         </p>
+
+                        <Leaderboard />
                 </div>
               </div>
           </div>
@@ -199,11 +1082,17 @@ export const HUD: React.FC = () => {
           <div className="absolute inset-0 bg-black/90 z-[100] text-white pointer-events-auto backdrop-blur-sm overflow-y-auto">
               <div className="flex flex-col items-center justify-center min-h-full py-8 px-4">
                 <h1 className="text-4xl md:text-6xl font-black text-red-500 mb-6 font-serif text-center">HUNT ENDED</h1>
+                {lastHitBy && CAUSE_LABELS[lastHitBy] && (
+                    <div className="flex items-center text-red-300/80 font-mono text-xs md:text-sm tracking-widest -mt-4 mb-6">
+                        <Skull className="mr-2 w-4 h-4" /> FELLED BY {CAUSE_LABELS[lastHitBy]}
+                    </div>
+                )}
+                <PersonalBestBanner />
                 
                 <div className="grid grid-cols-1 gap-3 md:gap-4 text-center mb-8 w-full max-w-md">
                     <div className="bg-[#3e2723]/80 p-3 md:p-4 rounded-lg border border-[#5d4037] flex items-center justify-between">
                         <div className="flex items-center text-yellow-400 text-sm md:text-base"><Trophy className="mr-2 w-4 h-4 md:w-5 md:h-5"/> AREA</div>
-                        <div className="text-xl md:text-2xl font-bold font-mono">{level} / 3</div>
+                        <div className="text-xl md:text-2xl font-bold font-mono">{level} / {MAX_LEVEL}</div>
                     </div>
                     <div className="bg-[#3e2723]/80 p-3 md:p-4 rounded-lg border border-[#5d4037] flex items-center justify-between">
                         <div className="flex items-center text-cyan-400 text-sm md:text-base"><Feather className="mr-2 w-4 h-4 md:w-5 md:h-5"/> WEAPONS</div>
@@ -212,11 +1101,16 @@ export const HUD: React.FC = () => {
                     <div className="bg-[#3e2723]/80 p-3 md:p-4 rounded-lg border border-[#5d4037] flex items-center justify-between">
                         <div className="flex items-center text-orange-400 text-sm md:text-base"><MapPin className="mr-2 w-4 h-4 md:w-5 md:h-5"/> DISTANCE</div>
                         <div className="text-xl md:text-2xl font-bold font-mono">{Math.floor(distance)} m</div>
+                    </div>
+                    <div className="bg-[#3e2723]/80 p-3 md:p-4 rounded-lg border border-[#5d4037] flex items-center justify-between">
+                        <div className="flex items-center text-amber-300 text-sm md:text-base"><Flame className="mr-2 w-4 h-4 md:w-5 md:h-5"/> MAX COMBO</div>
+                        <div className="text-xl md:text-2xl font-bold font-mono">{maxCombo}</div>
                     </div>
                      <div className="bg-[#2d1b0e]/80 p-3 md:p-4 rounded-lg flex items-center justify-between mt-2">
                         <div className="flex items-center text-white text-sm md:text-base">TOTAL SCORE</div>
                         <div className="text-2xl md:text-3xl font-bold text-yellow-500">{score.toLocaleString()}</div>
                     </div>
+                    <div className="text-[10px] md:text-xs text-orange-200/60 font-mono tracking-widest">SEED {seed}</div>
                 </div>
 
                 <button 
@@ -225,6 +1119,13 @@ export const HUD: React.FC = () => {
                 >
                     HUNT AGAIN
                 </button>
+                <button 
+                  onClick={() => { audio.init(); startGame(seed, runWord ?? undefined); }}
+                  className="mt-3 px-6 py-2 text-orange-200/80 font-mono text-xs md:text-sm tracking-widest hover:text-orange-100 transition-colors"
+                >
+                    RETRY SAME TRACK
+                </button>
+                <ReplayControls />
               </div>
           </div>
       );
@@ -241,12 +1142,18 @@ export const HUD: React.FC = () => {
                 <p className="text-green-200 text-sm md:text-2xl font-mono mb-8 tracking-widest text-center">
                     THE ANCESTORS ARE PROUD
                 </p>
+                <PersonalBestBanner />
                 
                 <div className="grid grid-cols-1 gap-4 text-center mb-8 w-full max-w-md">
                     <div className="bg-black/30 p-6 rounded-xl border border-yellow-500/30">
                         <div className="text-xs md:text-sm text-gray-300 mb-1 tracking-wider">FINAL SCORE</div>
                         <div className="text-3xl md:text-4xl font-bold text-yellow-400">{score.toLocaleString()}</div>
                     </div>
+                    <div className="bg-black/30 p-4 rounded-xl border border-yellow-500/30 flex items-center justify-between">
+                        <div className="flex items-center text-amber-300 text-xs md:text-sm tracking-wider"><Flame className="mr-2 w-4 h-4 md:w-5 md:h-5"/> MAX COMBO</div>
+                        <div className="text-xl md:text-2xl font-bold font-mono">{maxCombo}</div>
+                    </div>
+                    <div className="text-[10px] md:text-xs text-green-200/60 font-mono tracking-widest">SEED {seed}</div>
                 </div>
 
                 <button 
@@ -255,6 +1162,7 @@ export const HUD: React.FC = () => {
                 >
                     START NEW JOURNEY
                 </button>
+                <ReplayControls />
             </div>
         </div>
     );
@@ -270,6 +1178,14 @@ export const HUD: React.FC = () => {
                     <div className="text-3xl md:text-5xl font-bold text-orange-400 drop-shadow-md font-serif">
                         {score.toLocaleString()}
                     </div>
+                    <button 
+                        onClick={pauseGame}
+                        className="mt-2 w-10 h-10 rounded-full bg-white/20 backdrop-blur-md border-2 border-white/30 flex items-center justify-center active:bg-white/40 active:scale-95 transition-all pointer-events-auto"
+                    >
+                        <Pause className="w-5 h-5 text-white" fill="white" />
+                    </button>
+                    <ComboMeter />
+                    <PowerUpTimers />
                 </div>
                 
                 {/* Right Side: Lives & Progress Bar */}
@@ -284,15 +1200,17 @@ export const HUD: React.FC = () => {
                         ))}
                     </div>
 
+                    <SpearAmmo />
+
                     {/* Progress Bar */}
                     <div className="w-32 md:w-48 h-3 bg-gray-900/80 rounded-full border border-gray-600 overflow-hidden relative shadow-lg">
                         <div 
                             className="h-full bg-gradient-to-r from-orange-600 to-yellow-400 transition-all duration-500 ease-out"
-                            style={{ width: `${(collectedLetters.length / 6) * 100}%` }}
+                            style={{ width: `${(collectedLetters.length / targetWord.length) * 100}%` }}
                         />
                         {/* Segments for letters */}
                         <div className="absolute inset-0 flex">
-                            {[...Array(6)].map((_, i) => (
+                            {targetWord.map((_, i) => (
                                 <div key={i} className="flex-1 border-r border-gray-800/30 last:border-r-0"></div>
                             ))}
                         </div>
@@ -304,9 +1222,15 @@ export const HUD: React.FC = () => {
             </div>
             
             <div className="absolute top-5 left-1/2 transform -translate-x-1/2 text-sm md:text-lg text-yellow-100 font-bold tracking-wider font-mono bg-black/30 px-3 py-1 rounded-full border border-white/10 backdrop-blur-sm z-50">
-                ZONE {level} <span className="text-gray-400 text-xs md:text-sm">/ 3</span>
+                ZONE {level} <span className="text-gray-400 text-xs md:text-sm">/ {MAX_LEVEL}</span>
             </div>
 
+            {isReplay && (
+                <div className="absolute top-5 right-1/2 mr-24 md:mr-32 flex items-center text-xs md:text-sm text-red-300 font-mono tracking-widest animate-pulse">
+                    <Film className="mr-1 w-4 h-4" /> REPLAY
+                </div>
+            )}
+
             {isImmortalityActive && (
                 <div className="absolute top-24 left-1/2 transform -translate-x-1/2 text-yellow-300 font-bold text-xl md:text-2xl animate-pulse flex items-center drop-shadow-md">
                     <Shield className="mr-2 fill-yellow-400" /> SPIRIT SHIELD
@@ -314,26 +1238,28 @@ export const HUD: React.FC = () => {
             )}
 
             {/* Collection Status (Center) */}
-            <div className="absolute top-16 md:top-24 left-1/2 transform -translate-x-1/2 flex space-x-2 md:space-x-3">
-                {target.map((char, idx) => {
-                    const isCollected = collectedLetters.includes(idx);
-                    const color = HUNTER_COLORS[idx];
+            {isBossFight ? <BossHealthBar /> : (
+                <div className="absolute top-16 md:top-24 left-1/2 transform -translate-x-1/2 flex flex-wrap justify-center gap-2 md:gap-3 w-max max-w-[90vw]">
+                    {targetWord.map((char, idx) => {
+                        const isCollected = collectedLetters.includes(idx);
+                        const color = getLetterColor(idx);
 
-                    return (
-                        <div 
-                            key={idx}
-                            style={{
-                                borderColor: isCollected ? color : 'rgba(80, 60, 50, 0.5)',
-                                color: isCollected ? '#2d1b0e' : 'rgba(100, 80, 70, 0.8)',
-                                backgroundColor: isCollected ? color : 'rgba(30, 20, 10, 0.6)'
-                            }}
-                            className={`w-8 h-10 md:w-10 md:h-12 flex items-center justify-center border-2 font-black text-lg md:text-xl font-serif rounded-sm transform transition-all duration-300`}
-                        >
-                            {char}
-                        </div>
-                    );
-                })}
-            </div>
+                        return (
+                            <div 
+                                key={idx}
+                                style={{
+                                    borderColor: isCollected ? color : 'rgba(80, 60, 50, 0.5)',
+                                    color: isCollected ? '#2d1b0e' : 'rgba(100, 80, 70, 0.8)',
+                                    backgroundColor: isCollected ? color : 'rgba(30, 20, 10, 0.6)'
+                                }}
+                                className={`w-8 h-10 md:w-10 md:h-12 flex items-center justify-center border-2 font-black text-lg md:text-xl font-serif rounded-sm transform transition-all duration-300`}
+                            >
+                                {char}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
 
             {/* Bottom Overlay Info */}
             <div className="w-full flex justify-end items-end mb-24 pointer-events-none">
@@ -344,8 +1270,11 @@ export const HUD: React.FC = () => {
             </div>
         </div>
         
+        <EventFeedback />
+        {!isReplay && <SlideHint />}
+
         {/* Virtual Controls Overlay */}
-        <VirtualControls />
+        {!isReplay && <VirtualControls />}
     </>
   );
 };
\ No newline at end of file
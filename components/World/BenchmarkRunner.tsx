@@ -0,0 +1,43 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React, { useEffect, useMemo } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import { useStore } from '../../store';
+import { useSimulation } from '../System/SimulationContext';
+import { BenchmarkField, BenchmarkRecorder, BENCHMARK_LANES, BENCHMARK_WORD, useBenchmark } from '../System/Benchmark';
+
+// Drives the benchmark field in place of the GameLoop and records how the frames hold up
+export const BenchmarkRunner: React.FC = () => {
+    const simulation = useSimulation();
+    const gl = useThree(state => state.gl);
+    const field = useMemo(() => new BenchmarkField(simulation), [simulation]);
+    const recorder = useMemo(() => new BenchmarkRecorder(), []);
+
+    // Lane markers, camera and letter glyphs follow the store
+    useEffect(() => {
+        useStore.setState({ laneCount: BENCHMARK_LANES, targetWord: BENCHMARK_WORD });
+    }, []);
+
+    // Count every pass of the frame, post-processing included, not just the last render call
+    useEffect(() => {
+        gl.info.autoReset = false;
+        return () => { gl.info.autoReset = true; };
+    }, [gl]);
+
+    useFrame((state, delta) => {
+        field.update(Math.min(delta, 0.1));
+
+        const drawCalls = gl.info.render.calls;
+        gl.info.reset();
+
+        if (recorder.sample(delta, drawCalls, simulation.objects.length)) {
+            useBenchmark.getState().report(recorder.phase, recorder.result);
+        }
+    });
+
+    return null;
+};
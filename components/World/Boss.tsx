@@ -0,0 +1,135 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React, { useRef, useEffect, useMemo } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { useStore } from '../../store';
+import { LANE_WIDTH, BOSS_DISTANCE, BOSS_INTRO_DURATION } from '../../types';
+import { useSimulation } from '../System/SimulationContext';
+
+// Geometries for the Elder Spirit, about three times the hunter's height
+const TRUNK_GEO = new THREE.CylinderGeometry(1.2, 2.2, 5, 10);
+const HEAD_GEO = new THREE.SphereGeometry(1.3, 20, 16);
+const EYE_GEO = new THREE.SphereGeometry(0.22, 12, 12);
+const ANTLER_GEO = new THREE.CylinderGeometry(0.1, 0.2, 2.6, 6);
+const TINE_GEO = new THREE.CylinderGeometry(0.06, 0.12, 1.2, 6);
+const ARM_GEO = new THREE.CylinderGeometry(0.3, 0.5, 3.2, 8);
+const HEART_GEO = new THREE.OctahedronGeometry(0.6, 0);
+const WARNING_GEO = new THREE.PlaneGeometry(LANE_WIDTH * 0.9, BOSS_DISTANCE);
+
+// Eyes burn hotter with each phase
+const PHASE_COLORS = ['#76ff03', '#ffab00', '#ff1744'];
+const RISE_DEPTH = 9; // How far below the ground it starts its intro
+const HIT_FLASH_SECONDS = 0.15;
+
+export const Boss: React.FC = () => {
+  const groupRef = useRef<THREE.Group>(null);
+  const leftArmRef = useRef<THREE.Group>(null);
+  const rightArmRef = useRef<THREE.Group>(null);
+  const heartRef = useRef<THREE.Mesh>(null);
+  const warningRefs = useRef<(THREE.Mesh | null)[]>([]);
+
+  const laneCount = useStore(state => state.laneCount);
+  const simulation = useSimulation();
+  const hitFlash = useRef(0); // Seconds left of the flash after taking a weak point
+
+  const { barkMat, spiritMat, eyeMat, antlerMat, heartMat, warningMat } = useMemo(() => ({
+      barkMat: new THREE.MeshStandardMaterial({ color: '#3e2723', roughness: 0.9, emissive: '#ffffff', emissiveIntensity: 0 }),
+      spiritMat: new THREE.MeshStandardMaterial({ color: '#4a148c', emissive: '#4a148c', emissiveIntensity: 0.5, transparent: true, opacity: 0.9 }),
+      eyeMat: new THREE.MeshBasicMaterial({ color: PHASE_COLORS[0] }),
+      antlerMat: new THREE.MeshStandardMaterial({ color: '#d7ccc8', roughness: 0.7 }),
+      heartMat: new THREE.MeshStandardMaterial({ color: '#ffea00', emissive: '#ff6f00', emissiveIntensity: 1 }),
+      warningMat: new THREE.MeshBasicMaterial({ color: '#ff1744', transparent: true, opacity: 0.3, depthWrite: false }),
+  }), []);
+
+  useEffect(() => () => {
+      [barkMat, spiritMat, eyeMat, antlerMat, heartMat, warningMat].forEach(material => material.dispose());
+  }, [barkMat, spiritMat, eyeMat, antlerMat, heartMat, warningMat]);
+
+  useFrame((state, delta) => {
+    if (!groupRef.current) return;
+    const boss = simulation.boss;
+    const time = state.clock.elapsedTime;
+
+    groupRef.current.visible = !!boss;
+    warningRefs.current.forEach((strip, i) => {
+        if (!strip) return;
+        const lane = boss?.warningLanes[i];
+        strip.visible = lane !== undefined;
+        if (lane !== undefined) strip.position.x = lane * LANE_WIDTH;
+    });
+    if (!boss) return;
+
+    // Rises out of the ground, then hovers just ahead of the player's lane
+    const rise = boss.introTimer / BOSS_INTRO_DURATION;
+    groupRef.current.position.set(boss.x, -RISE_DEPTH * rise + Math.sin(time * 1.5) * 0.3, -BOSS_DISTANCE);
+
+    eyeMat.color.set(PHASE_COLORS[boss.phase - 1] ?? PHASE_COLORS[PHASE_COLORS.length - 1]);
+    hitFlash.current = Math.max(0, hitFlash.current - delta);
+    barkMat.emissiveIntensity = hitFlash.current > 0 ? 0.8 : 0;
+
+    // Both arms go up while an attack is being telegraphed
+    const armLift = boss.warningTimer > 0 ? 2.4 : 0.4;
+    const armSpeed = delta * 8;
+    if (leftArmRef.current) leftArmRef.current.rotation.z = THREE.MathUtils.lerp(leftArmRef.current.rotation.z, -armLift, armSpeed);
+    if (rightArmRef.current) rightArmRef.current.rotation.z = THREE.MathUtils.lerp(rightArmRef.current.rotation.z, armLift, armSpeed);
+
+    if (heartRef.current) {
+        heartRef.current.rotation.y = time * 2;
+        heartRef.current.scale.setScalar(1 + Math.sin(time * 6) * 0.1);
+    }
+
+    // Warning lanes flash faster as the attack closes in
+    warningMat.opacity = 0.2 + 0.25 * (0.5 + 0.5 * Math.sin(time * (boss.warningTimer < 0.5 ? 30 : 15)));
+  });
+
+  useEffect(() => {
+     return simulation.bus.on('boss-hit', () => {
+        hitFlash.current = HIT_FLASH_SECONDS;
+     });
+  }, [simulation]);
+
+  return (
+    <group>
+      <group ref={groupRef} visible={false}>
+        <mesh position={[0, 2.5, 0]} geometry={TRUNK_GEO} material={barkMat} castShadow />
+        <mesh position={[0, 3.6, 1.3]} geometry={HEART_GEO} material={heartMat} ref={heartRef} />
+
+        <mesh position={[0, 5.9, 0]} geometry={HEAD_GEO} material={spiritMat} />
+        <mesh position={[0.45, 6.1, 1.15]} geometry={EYE_GEO} material={eyeMat} />
+        <mesh position={[-0.45, 6.1, 1.15]} geometry={EYE_GEO} material={eyeMat} />
+
+        {/* Antlers */}
+        <mesh position={[0.9, 7.6, 0]} rotation={[0, 0, -0.5]} geometry={ANTLER_GEO} material={antlerMat} castShadow />
+        <mesh position={[-0.9, 7.6, 0]} rotation={[0, 0, 0.5]} geometry={ANTLER_GEO} material={antlerMat} castShadow />
+        <mesh position={[1.5, 8.0, 0]} rotation={[0, 0, 0.4]} geometry={TINE_GEO} material={antlerMat} />
+        <mesh position={[-1.5, 8.0, 0]} rotation={[0, 0, -0.4]} geometry={TINE_GEO} material={antlerMat} />
+
+        {/* Arms, pivoting at the shoulders */}
+        <group position={[1.4, 4.6, 0]} ref={rightArmRef}>
+            <mesh position={[0, -1.6, 0]} geometry={ARM_GEO} material={barkMat} castShadow />
+        </group>
+        <group position={[-1.4, 4.6, 0]} ref={leftArmRef}>
+            <mesh position={[0, -1.6, 0]} geometry={ARM_GEO} material={barkMat} castShadow />
+        </group>
+      </group>
+
+      {/* Telegraphed lanes, from the boss to the player */}
+      {Array.from({ length: laneCount }, (_, i) => (
+          <mesh
+            key={i}
+            ref={(mesh) => { warningRefs.current[i] = mesh; }}
+            position={[0, 0.03, -BOSS_DISTANCE / 2]}
+            rotation={[-Math.PI / 2, 0, 0]}
+            geometry={WARNING_GEO}
+            material={warningMat}
+            visible={false}
+          />
+      ))}
+    </group>
+  );
+};
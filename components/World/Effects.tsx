@@ -7,20 +7,34 @@
 import React from 'react';
 import { EffectComposer, Bloom, Vignette, Noise } from '@react-three/postprocessing';
 import { BlendFunction } from 'postprocessing';
+import { useSettings } from '../System/Settings';
+import { useQualityCaps } from '../System/Performance';
 
 export const Effects: React.FC = () => {
+  const settings = useSettings();
+  const caps = useQualityCaps();
+  const bloom = settings.bloom && caps.bloom;
+  const noise = settings.noise && caps.noise;
+  const vignette = settings.vignette;
+
+  // All off: skip the composer and its extra render pass entirely
+  if (!bloom && !noise && !vignette) return null;
+
   return (
-    <EffectComposer disableNormalPass multisampling={0}>
+    // Rebuilt when the set of effects changes, so passes are never left half-configured
+    <EffectComposer key={`${bloom}-${noise}-${vignette}`} disableNormalPass multisampling={0}>
       {/* Tighter bloom to avoid fog: High threshold, moderate radius */}
-      <Bloom 
-        luminanceThreshold={0.75} 
-        mipmapBlur 
-        intensity={1.0} 
-        radius={0.6}
-        levels={8}
-      />
-      <Noise opacity={0.05} blendFunction={BlendFunction.OVERLAY} />
-      <Vignette eskil={false} offset={0.1} darkness={0.5} />
+      {bloom && (
+        <Bloom 
+          luminanceThreshold={0.75} 
+          mipmapBlur 
+          intensity={1.0} 
+          radius={0.6}
+          levels={8}
+        />
+      )}
+      {noise && <Noise opacity={0.05} blendFunction={BlendFunction.OVERLAY} />}
+      {vignette && <Vignette eskil={false} offset={0.1} darkness={0.5} />}
     </EffectComposer>
   );
 };
@@ -8,12 +8,25 @@ import React, { useRef, useMemo } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
 import { useStore } from '../../store';
-import { LANE_WIDTH } from '../../types';
+import { LANE_WIDTH, GameStatus } from '../../types';
+import { getLevelDefinition } from '../../levels';
+import { useSettings, SHADOW_MAP_SIZE } from '../System/Settings';
+import { useQualityCaps } from '../System/Performance';
+
+// Full instance counts; the performance governor may draw only part of each
+const FIREFLY_COUNT = 100;
+const TREE_COUNT = 40;
+const BUSH_COUNT = 30;
+const FOG_PATCH_COUNT = 15;
+
+const useScaledCount = (count: number) => Math.ceil(count * useQualityCaps().environmentScale);
 
 // Fireflies (Spirits) instead of Stars
 const Fireflies: React.FC = () => {
   const speed = useStore(state => state.speed);
-  const count = 100; 
+  const isPaused = useStore(state => state.status === GameStatus.PAUSED);
+  const count = FIREFLY_COUNT;
+  const activeCount = useScaledCount(count);
   const meshRef = useRef<THREE.Points>(null);
   
   const positions = useMemo(() => {
@@ -31,12 +44,13 @@ const Fireflies: React.FC = () => {
   }, []);
 
   useFrame((state, delta) => {
-    if (!meshRef.current) return;
+    if (!meshRef.current || isPaused) return;
     
     const positions = meshRef.current.geometry.attributes.position.array as Float32Array;
     const activeSpeed = speed > 0 ? speed : 2;
+    meshRef.current.geometry.setDrawRange(0, activeCount);
 
-    for (let i = 0; i < count; i++) {
+    for (let i = 0; i < activeCount; i++) {
         let z = positions[i * 3 + 2];
         let y = positions[i * 3 + 1];
         
@@ -116,7 +130,9 @@ const Moon: React.FC = () => {
 // Simple Low Poly Trees with swaying animation
 const Trees: React.FC = () => {
     const speed = useStore(state => state.speed);
-    const count = 40;
+    const isPaused = useStore(state => state.status === GameStatus.PAUSED);
+    const count = TREE_COUNT;
+    const activeCount = useScaledCount(count);
     const dummy = useMemo(() => new THREE.Object3D(), []);
     const meshRef = useRef<THREE.InstancedMesh>(null);
     const trunkRef = useRef<THREE.InstancedMesh>(null);
@@ -133,11 +149,14 @@ const Trees: React.FC = () => {
     }, []);
 
     useFrame((state, delta) => {
-        if (!meshRef.current || !trunkRef.current) return;
+        if (!meshRef.current || !trunkRef.current || isPaused) return;
         const activeSpeed = speed > 0 ? speed : 0;
         const time = state.clock.elapsedTime;
+        meshRef.current.count = activeCount;
+        trunkRef.current.count = activeCount;
 
         treeData.forEach((data, i) => {
+            if (i >= activeCount) return;
             data.z += activeSpeed * delta;
             if (data.z > 20) data.z = -200; // Loop back
 
@@ -180,7 +199,9 @@ const Trees: React.FC = () => {
 // Swaying Bushes
 const Bushes: React.FC = () => {
     const speed = useStore(state => state.speed);
-    const count = 30;
+    const isPaused = useStore(state => state.status === GameStatus.PAUSED);
+    const count = BUSH_COUNT;
+    const activeCount = useScaledCount(count);
     const dummy = useMemo(() => new THREE.Object3D(), []);
     const meshRef = useRef<THREE.InstancedMesh>(null);
 
@@ -195,11 +216,13 @@ const Bushes: React.FC = () => {
     }, []);
 
     useFrame((state, delta) => {
-        if (!meshRef.current) return;
+        if (!meshRef.current || isPaused) return;
         const activeSpeed = speed > 0 ? speed : 0;
         const time = state.clock.elapsedTime;
+        meshRef.current.count = activeCount;
 
         bushData.forEach((data, i) => {
+            if (i >= activeCount) return;
             data.z += activeSpeed * delta;
             if (data.z > 20) data.z = -200;
 
@@ -227,7 +250,9 @@ const Bushes: React.FC = () => {
 // Low-lying Fog Patches
 const FogPatches: React.FC = () => {
     const speed = useStore(state => state.speed);
-    const count = 15;
+    const isPaused = useStore(state => state.status === GameStatus.PAUSED);
+    const count = FOG_PATCH_COUNT;
+    const activeCount = useScaledCount(count);
     const dummy = useMemo(() => new THREE.Object3D(), []);
     const meshRef = useRef<THREE.InstancedMesh>(null);
     
@@ -244,10 +269,12 @@ const FogPatches: React.FC = () => {
     }, []);
 
     useFrame((state, delta) => {
-        if (!meshRef.current) return;
+        if (!meshRef.current || isPaused) return;
         const activeSpeed = speed > 0 ? speed : 2;
+        meshRef.current.count = activeCount;
 
         fogData.forEach((data, i) => {
+             if (i >= activeCount) return;
              data.z += activeSpeed * delta * data.speedMod;
              if (data.z > 50) data.z = -250;
              
@@ -269,25 +296,30 @@ const FogPatches: React.FC = () => {
 
 export const Environment: React.FC = () => {
   const { level } = useStore();
+  const { shadows: shadowSetting } = useSettings();
+  const shadows = useQualityCaps().shadows ? shadowSetting : 'OFF';
   
-  // Level 1: Clearer vision. Level 2+: Foggy/Hard to see.
-  const isFoggy = level >= 2;
+  // Visibility comes from the level definition (data/levels.json)
+  const { fog, lighting } = getLevelDefinition(level);
 
   return (
     <>
       <color attach="background" args={['#001100']} />
       
       {/* Dynamic fog based on level */}
-      <fog attach="fog" args={['#001100', isFoggy ? 30 : 50, isFoggy ? 120 : 200]} />
+      <fog attach="fog" args={['#001100', fog.near, fog.far]} />
       
-      <ambientLight intensity={0.4} color="#aaddaa" />
+      <ambientLight intensity={lighting.ambientIntensity} color="#aaddaa" />
       
-      {/* Brighter light in Level 1 to help visibility */}
+      {/* Early levels get brighter light to help visibility */}
+      {/* Remounted when the shadow quality changes, since a live shadow map can't be resized */}
       <directionalLight 
+        key={shadows}
         position={[10, 20, 10]} 
-        intensity={isFoggy ? 1.0 : 1.5} 
+        intensity={lighting.sunIntensity} 
         color="#ffaa00" 
-        castShadow 
+        castShadow={shadows !== 'OFF'}
+        shadow-mapSize={[SHADOW_MAP_SIZE[shadows], SHADOW_MAP_SIZE[shadows]]}
       />
       
       <Fireflies />
@@ -295,8 +327,8 @@ export const Environment: React.FC = () => {
       <Trees />
       <Bushes />
       
-      {/* Fog patches only appear in Level 2+ to obscure obstacles */}
-      {isFoggy && <FogPatches />}
+      {/* Fog patches obscure obstacles in the harder levels */}
+      {fog.patches && <FogPatches />}
       
       <Moon />
     </>
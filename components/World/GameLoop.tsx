@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React, { useRef, useEffect } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { useStore } from '../../store';
+import { GameStatus, InputAction } from '../../types';
+import { audio } from '../System/Audio';
+import { replay } from '../System/Replay';
+import { useActionInput } from '../System/Input';
+import { useRecords, createRunRecord } from '../System/Records';
+import { saveRun, clearSavedRun } from '../System/SaveGame';
+import { FIXED_DT } from '../System/Simulation';
+import { useSimulation } from '../System/SimulationContext';
+import { isCheatedRun } from '../System/DevTools';
+
+// Same cap the old per-frame loop used, so a long stall doesn't fast-forward the run
+const MAX_FRAME_DELTA = 0.05;
+
+// Drives the simulation at a fixed tick from the render loop. Must be mounted before
+// the World renderers so they draw the state of the current frame.
+export const GameLoop: React.FC = () => {
+    const simulation = useSimulation();
+    const accumulator = useRef(0);
+
+    // Keyboard and swipes queue actions; they are applied on the next tick below
+    useActionInput(simulation);
+
+    // Run bookkeeping and sound; particles and HUD feedback subscribe on their own
+    useEffect(() => {
+        const offs = [
+            audio.subscribe(simulation.bus),
+            // Auto-save: entering the trader is a calm point to resume from
+            simulation.bus.on('shop-enter', () => saveRun(simulation)),
+            simulation.bus.on('run-end', () => {
+                // Watching a replay or a run bent by the dev console doesn't count
+                const state = useStore.getState();
+                if (!state.isReplay && !isCheatedRun(state.runId)) {
+                    useRecords.getState().addRun(createRunRecord(state));
+                    clearSavedRun();
+                }
+            }),
+        ];
+        return () => offs.forEach(off => off());
+    }, [simulation]);
+
+    // Tab switched, window minimised or closed mid-run: pause, and save so it can be continued
+    useEffect(() => {
+        const handleHide = () => {
+            if (document.visibilityState === 'hidden' && useStore.getState().status === GameStatus.PLAYING) {
+                useStore.getState().pauseGame();
+                saveRun(simulation);
+            }
+        };
+        document.addEventListener('visibilitychange', handleHide);
+        window.addEventListener('pagehide', handleHide);
+        return () => {
+            document.removeEventListener('visibilitychange', handleHide);
+            window.removeEventListener('pagehide', handleHide);
+        };
+    }, [simulation]);
+
+    useFrame((state, delta) => {
+        accumulator.current += Math.min(delta, MAX_FRAME_DELTA);
+
+        while (accumulator.current >= FIXED_DT) {
+            accumulator.current -= FIXED_DT;
+
+            // Inputs are logged against the tick they were applied on, which makes playback exact
+            let inputs: InputAction[] = [];
+            if (useStore.getState().status === GameStatus.PLAYING) {
+                if (replay.isPlayback) {
+                    inputs = replay.advance(FIXED_DT);
+                } else {
+                    replay.advance(FIXED_DT);
+                    inputs = simulation.takeQueuedInputs();
+                    inputs.forEach(action => replay.recordInput(action));
+                }
+            }
+
+            simulation.step(FIXED_DT, inputs);
+        }
+    });
+
+    return null;
+};
@@ -0,0 +1,42 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React, { useEffect, useMemo } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { useStore } from '../../store';
+import { GameStatus, ObjectType } from '../../types';
+import { audio, HumSource } from '../System/Audio';
+import { useSimulation } from '../System/SimulationContext';
+
+const HUM_RANGE = 100; // Spirits further down the track stay silent
+
+// Forest spirits hum from where they are, so they can be heard coming through the fog
+export const HazardAudio: React.FC = () => {
+    const simulation = useSimulation();
+    const sources = useMemo<HumSource[]>(() => [], []); // Reused every frame, grows to the most spirits heard at once
+
+    useEffect(() => () => audio.updateHums(sources, 0), [sources]);
+
+    useFrame(() => {
+        if (useStore.getState().status !== GameStatus.PLAYING) {
+            audio.updateHums(sources, 0);
+            return;
+        }
+
+        let count = 0;
+        for (const obj of simulation.objects) {
+            if (!obj.active || obj.type !== ObjectType.MONSTER || obj.position[2] <= -HUM_RANGE) continue;
+            // Keyed by spawn, not slot, so a recycled slot starts a hum of its own
+            const source = sources[count] ?? (sources[count] = { key: 0, position: obj.position });
+            source.key = obj.spawnId;
+            source.position = obj.position;
+            count++;
+        }
+        audio.updateHums(sources, count);
+    });
+
+    return null;
+};
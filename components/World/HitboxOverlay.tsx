@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React, { useEffect, useMemo } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { ObjectType } from '../../types';
+import { useSimulation } from '../System/SimulationContext';
+import { getPlayerPose } from '../System/Simulation';
+import { Hitbox, OBJECT_HITBOXES, PLAYER_HITBOXES, PlayerPose } from '../System/Hitboxes';
+import { OBJECT_POOL_SIZE } from '../System/ObjectPool';
+import { growInstances } from './InstancePool';
+
+const HAZARD_COLOR = '#ff1744';
+const PICKUP_COLOR = '#ffea00';
+
+const OBJECT_COLORS: Record<ObjectType, string> = {
+    [ObjectType.OBSTACLE]: HAZARD_COLOR,
+    [ObjectType.ALIEN]: HAZARD_COLOR,
+    [ObjectType.MISSILE]: HAZARD_COLOR,
+    [ObjectType.MONSTER]: HAZARD_COLOR,
+    [ObjectType.BRANCH]: HAZARD_COLOR,
+    [ObjectType.VINE]: HAZARD_COLOR,
+    [ObjectType.BOSS_ORB]: HAZARD_COLOR,
+    [ObjectType.GEM]: PICKUP_COLOR,
+    [ObjectType.LETTER]: PICKUP_COLOR,
+    [ObjectType.POWERUP]: PICKUP_COLOR,
+    [ObjectType.WEAK_POINT]: PICKUP_COLOR,
+    [ObjectType.SHOP_PORTAL]: '#40c4ff',
+    [ObjectType.SPEAR]: '#00e676',
+};
+const PLAYER_COLOR = '#00e676';
+
+const createGeometry = (hitbox: Hitbox) => {
+    if (hitbox.shape === 'AABB') {
+        const [x, y, z] = hitbox.halfSize;
+        return new THREE.BoxGeometry(x * 2, y * 2, z * 2);
+    }
+    return new THREE.CapsuleGeometry(hitbox.radius, hitbox.halfHeight * 2, 4, 12);
+};
+
+const createOutline = (hitbox: Hitbox, color: string, capacity: number) => {
+    const material = new THREE.MeshBasicMaterial({ color, wireframe: true, depthTest: false, transparent: true, opacity: 0.8 });
+    const mesh = new THREE.InstancedMesh(createGeometry(hitbox), material, capacity);
+    mesh.count = 0;
+    mesh.frustumCulled = false;
+    mesh.renderOrder = 1000; // Over everything, hitboxes are often inside their models
+    return mesh;
+};
+
+// Debug wireframes of every hitbox in play, the player's in its current pose
+export const HitboxOverlay: React.FC = () => {
+    const simulation = useSimulation();
+
+    const { objectOutlines, playerOutlines } = useMemo(() => ({
+        objectOutlines: new Map((Object.keys(OBJECT_HITBOXES) as ObjectType[]).map(type => [type, createOutline(OBJECT_HITBOXES[type], OBJECT_COLORS[type], OBJECT_POOL_SIZE)])),
+        playerOutlines: new Map((Object.keys(PLAYER_HITBOXES) as PlayerPose[]).map(pose => [pose, createOutline(PLAYER_HITBOXES[pose], PLAYER_COLOR, 1)])),
+    }), []);
+
+    useEffect(() => () => {
+        [...objectOutlines.values(), ...playerOutlines.values()].forEach(mesh => {
+            mesh.geometry.dispose();
+            (mesh.material as THREE.Material).dispose();
+            mesh.dispose();
+        });
+    }, [objectOutlines, playerOutlines]);
+
+    const matrix = useMemo(() => new THREE.Matrix4(), []);
+
+    useFrame(() => {
+        objectOutlines.forEach(mesh => { mesh.count = 0; });
+        playerOutlines.forEach(mesh => { mesh.count = 0; });
+
+        for (const obj of simulation.objects) {
+            if (!obj.active) continue;
+            const mesh = objectOutlines.get(obj.type)!;
+            if (mesh.count >= mesh.instanceMatrix.count) growInstances(mesh);
+            const { offset } = OBJECT_HITBOXES[obj.type];
+            mesh.setMatrixAt(mesh.count++, matrix.makeTranslation(obj.position[0] + offset[0], obj.position[1] + offset[1], obj.position[2] + offset[2]));
+        }
+
+        const { player } = simulation;
+        const pose = getPlayerPose(player);
+        const { offset } = PLAYER_HITBOXES[pose];
+        const mesh = playerOutlines.get(pose)!;
+        mesh.setMatrixAt(mesh.count++, matrix.makeTranslation(player.x + offset[0], player.y + offset[1], offset[2]));
+
+        objectOutlines.forEach(outline => { outline.instanceMatrix.needsUpdate = true; });
+        playerOutlines.forEach(outline => { outline.instanceMatrix.needsUpdate = true; });
+    });
+
+    return (
+        <group>
+            {[...objectOutlines].map(([type, outline]) => <primitive key={type} object={outline} />)}
+            {[...playerOutlines].map(([pose, outline]) => <primitive key={pose} object={outline} />)}
+        </group>
+    );
+};
@@ -0,0 +1,25 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import * as THREE from 'three';
+
+const resizeAttribute = (attribute: THREE.InstancedBufferAttribute, capacity: number) => {
+    const array = new Float32Array(capacity * attribute.itemSize);
+    array.set(attribute.array);
+    const resized = new THREE.InstancedBufferAttribute(array, attribute.itemSize);
+    resized.setUsage(attribute.usage);
+    return resized;
+};
+
+// Doubles an InstancedMesh that ran out of slots, keeping the instances already written.
+// The simulation's ObjectPool grows past OBJECT_POOL_SIZE the same way, so nothing is dropped.
+export const growInstances = (mesh: THREE.InstancedMesh) => {
+    const capacity = mesh.instanceMatrix.count * 2;
+    // Frees the GPU buffers of the old attributes; the larger ones upload on the next render
+    mesh.dispose();
+    mesh.instanceMatrix = resizeAttribute(mesh.instanceMatrix, capacity);
+    if (mesh.instanceColor) mesh.instanceColor = resizeAttribute(mesh.instanceColor, capacity);
+};
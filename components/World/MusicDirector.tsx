@@ -0,0 +1,75 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React, { useEffect } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { useStore } from '../../store';
+import { GameStatus, ObjectType, LANE_WIDTH } from '../../types';
+import { audio } from '../System/Audio';
+import { getRunTempo } from '../System/Music';
+import { useSettings } from '../System/Settings';
+import { useSimulation } from '../System/SimulationContext';
+import type { GameSimulation } from '../System/Simulation';
+
+const HAZARD_TYPES = [ObjectType.OBSTACLE, ObjectType.ALIEN, ObjectType.MISSILE, ObjectType.MONSTER, ObjectType.BRANCH, ObjectType.VINE, ObjectType.BOSS_ORB];
+const HAZARD_RANGE = 40; // Units ahead where the intensity stem starts to come in
+
+// 0-1: how close the nearest hazard in or next to the player's lane is
+const getHazardProximity = (simulation: GameSimulation) => {
+    const playerX = simulation.player.x;
+    let proximity = 0;
+    for (const obj of simulation.objects) {
+        if (!obj.active || !HAZARD_TYPES.includes(obj.type)) continue;
+        const z = obj.position[2];
+        if (z > 0 || z < -HAZARD_RANGE) continue;
+        if (Math.abs(obj.position[0] - playerX) > LANE_WIDTH * 1.5) continue;
+        proximity = Math.max(proximity, 1 + z / HAZARD_RANGE);
+    }
+    return proximity;
+};
+
+// Keeps the soundtrack in step with the run: mode from the status, tempo from speed,
+// layers from level (or the boss's phase), intensity from nearby hazards and boss warnings,
+// and a stinger when the run ends
+export const MusicDirector: React.FC = () => {
+    const simulation = useSimulation();
+    const music = audio.music;
+
+    useEffect(() => {
+        return simulation.bus.on('run-end', (e) => {
+            if (!useSettings.getState().music) return;
+            music.playStinger(e.status === GameStatus.VICTORY ? 'VICTORY' : 'GAME_OVER');
+        });
+    }, [simulation, music]);
+
+    useEffect(() => () => music.setMode('SILENT'), [music]);
+
+    useFrame(() => {
+        const { status, speed, level } = useStore.getState();
+
+        if (!useSettings.getState().music) {
+            music.setMode('SILENT');
+        } else if (status === GameStatus.PLAYING && simulation.boss) {
+            const { boss } = simulation;
+            music.setBossPhase(boss.phase);
+            music.setMode('BOSS');
+            music.setIntensity(boss.warningTimer > 0 ? 1 : getHazardProximity(simulation));
+        } else if (status === GameStatus.PLAYING) {
+            music.setTempo(getRunTempo(speed));
+            music.setLevel(level);
+            music.setMode('RUN');
+            music.setIntensity(getHazardProximity(simulation));
+        } else if (status === GameStatus.SHOP) {
+            music.setMode('SHOP');
+            music.setIntensity(0);
+        } else if (status === GameStatus.MENU || status === GameStatus.PAUSED) {
+            music.setMode('SILENT');
+        }
+        // GAME_OVER / VICTORY: the stinger has already ended the music
+    });
+
+    return null;
+};
@@ -0,0 +1,32 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React, { useEffect, useMemo } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { FrameTimeGovernor, usePerformance } from '../System/Performance';
+import { useSettings } from '../System/Settings';
+
+// Samples frame times from the render loop and publishes the quality tier to render at
+export const PerformanceGovernor: React.FC = () => {
+    const governor = useMemo(() => new FrameTimeGovernor(), []);
+    const adaptiveQuality = useSettings(state => state.adaptiveQuality);
+
+    // Toggling adaptive quality starts over from full quality
+    useEffect(() => {
+        governor.reset();
+        usePerformance.getState().report(0, governor.fps);
+    }, [governor, adaptiveQuality]);
+
+    useFrame((state, delta) => {
+        const changed = governor.sample(delta);
+        const { tier, fps, report } = usePerformance.getState();
+        if (changed || governor.tier !== tier || governor.fps !== fps) {
+            report(governor.tier, governor.fps);
+        }
+    });
+
+    return null;
+};
@@ -8,11 +8,8 @@ import React, { useRef, useEffect, useMemo } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
 import { useStore } from '../../store';
-import { LANE_WIDTH, GameStatus } from '../../types';
-import { audio } from '../System/Audio';
-
-const GRAVITY = 50;
-const JUMP_FORCE = 16; 
+import { LANE_WIDTH, GameStatus, POWERUP_COLORS } from '../../types';
+import { useSimulation } from '../System/SimulationContext';
 
 // Geometries for Hunter
 const TORSO_GEO = new THREE.CylinderGeometry(0.25, 0.20, 0.6, 8);
@@ -22,6 +19,7 @@ const LEG_GEO = new THREE.CylinderGeometry(0.08, 0.06, 0.6);
 const SPEAR_SHAFT = new THREE.CylinderGeometry(0.03, 0.03, 1.8);
 const SPEAR_TIP = new THREE.ConeGeometry(0.06, 0.2);
 const SHADOW_GEO = new THREE.CircleGeometry(0.5, 32);
+const SHIELD_BUBBLE_GEO = new THREE.SphereGeometry(1.1, 24, 16);
 
 export const Player: React.FC = () => {
   const groupRef = useRef<THREE.Group>(null);
@@ -32,19 +30,15 @@ export const Player: React.FC = () => {
   const rightArmRef = useRef<THREE.Group>(null);
   const leftLegRef = useRef<THREE.Group>(null);
   const rightLegRef = useRef<THREE.Group>(null);
+  const spearRef = useRef<THREE.Group>(null);
+  const shieldRef = useRef<THREE.Mesh>(null);
 
-  const { status, laneCount, hasDoubleJump, activateImmortality, isImmortalityActive } = useStore();
-  
-  const [lane, setLane] = React.useState(0);
-  const targetX = useRef(0);
+  const { status, isImmortalityActive, spears } = useStore();
+  const simulation = useSimulation();
   
-  const isJumping = useRef(false);
-  const velocityY = useRef(0);
-  const jumpsPerformed = useRef(0); 
   const spinRotation = useRef(0); 
-
-  const touchStartX = useRef(0);
-  const touchStartY = useRef(0);
+  const prevJumps = useRef(0);
+  const prevStatus = useRef(status);
 
   const isInvincible = useRef(false);
   const lastDamageTime = useRef(0);
@@ -60,127 +54,54 @@ export const Player: React.FC = () => {
   }, [isImmortalityActive]); 
 
   useEffect(() => {
-      if (status === GameStatus.PLAYING) {
-          isJumping.current = false;
-          jumpsPerformed.current = 0;
-          velocityY.current = 0;
+      // Resuming from pause picks the pose up where it froze
+      if (status === GameStatus.PLAYING && prevStatus.current !== GameStatus.PAUSED) {
           spinRotation.current = 0;
-          if (groupRef.current) groupRef.current.position.y = 0;
           if (bodyRef.current) bodyRef.current.rotation.x = 0;
       }
+      prevStatus.current = status;
   }, [status]);
-  
-  useEffect(() => {
-      const maxLane = Math.floor(laneCount / 2);
-      if (Math.abs(lane) > maxLane) {
-          setLane(l => Math.max(Math.min(l, maxLane), -maxLane));
-      }
-  }, [laneCount, lane]);
-
-  const triggerJump = () => {
-    const maxJumps = hasDoubleJump ? 2 : 1;
-
-    if (!isJumping.current) {
-        audio.playJump(false);
-        isJumping.current = true;
-        jumpsPerformed.current = 1;
-        velocityY.current = JUMP_FORCE;
-    } else if (jumpsPerformed.current < maxJumps) {
-        audio.playJump(true);
-        jumpsPerformed.current += 1;
-        velocityY.current = JUMP_FORCE; 
-        spinRotation.current = 0; 
-    }
-  };
-
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if (status !== GameStatus.PLAYING) return;
-      const maxLane = Math.floor(laneCount / 2);
-
-      if (e.key === 'ArrowLeft') setLane(l => Math.max(l - 1, -maxLane));
-      else if (e.key === 'ArrowRight') setLane(l => Math.min(l + 1, maxLane));
-      else if (e.key === 'ArrowUp' || e.key === 'w') triggerJump();
-      else if (e.key === ' ' || e.key === 'Enter') {
-          activateImmortality();
-      }
-    };
-
-    window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [status, laneCount, hasDoubleJump, activateImmortality]);
-
-  useEffect(() => {
-    const handleTouchStart = (e: TouchEvent) => {
-      touchStartX.current = e.touches[0].clientX;
-      touchStartY.current = e.touches[0].clientY;
-    };
-
-    const handleTouchEnd = (e: TouchEvent) => {
-        // Prevent default touch behavior only on canvas area to avoid issues
-        // Note: Virtual controls in HUD handle their own events, this is fallback for swipe
-        if (status !== GameStatus.PLAYING) return;
-        
-        // If clicking on virtual controls (bottom area), ignore swipe logic
-        if (touchStartY.current > window.innerHeight - 150) return;
-
-        const deltaX = e.changedTouches[0].clientX - touchStartX.current;
-        const deltaY = e.changedTouches[0].clientY - touchStartY.current;
-        const maxLane = Math.floor(laneCount / 2);
-
-        if (Math.abs(deltaX) > Math.abs(deltaY) && Math.abs(deltaX) > 30) {
-             if (deltaX > 0) setLane(l => Math.min(l + 1, maxLane));
-             else setLane(l => Math.max(l - 1, -maxLane));
-        } else if (Math.abs(deltaY) > Math.abs(deltaX) && deltaY < -30) {
-            triggerJump();
-        } 
-    };
-
-    window.addEventListener('touchstart', handleTouchStart);
-    window.addEventListener('touchend', handleTouchEnd);
-    return () => {
-        window.removeEventListener('touchstart', handleTouchStart);
-        window.removeEventListener('touchend', handleTouchEnd);
-    };
-  }, [status, laneCount, hasDoubleJump]);
 
   useFrame((state, delta) => {
     if (!groupRef.current) return;
     if (status !== GameStatus.PLAYING && status !== GameStatus.SHOP) return;
 
-    targetX.current = lane * LANE_WIDTH;
-    groupRef.current.position.x = THREE.MathUtils.lerp(
-        groupRef.current.position.x, 
-        targetX.current, 
-        delta * 15 
-    );
-
-    if (isJumping.current) {
-        groupRef.current.position.y += velocityY.current * delta;
-        velocityY.current -= GRAVITY * delta;
-
-        if (groupRef.current.position.y <= 0) {
-            groupRef.current.position.y = 0;
-            isJumping.current = false;
-            jumpsPerformed.current = 0;
-            velocityY.current = 0;
-            if (bodyRef.current) bodyRef.current.rotation.x = 0;
-        }
-
-        if (jumpsPerformed.current === 2 && bodyRef.current) {
-             spinRotation.current -= delta * 15;
-             if (spinRotation.current < -Math.PI * 2) spinRotation.current = -Math.PI * 2;
-             bodyRef.current.rotation.x = spinRotation.current;
-        }
+    const player = simulation.player;
+    const isJumping = player.isJumping;
+    const isSliding = !isJumping && player.slideTimer > 0;
+    groupRef.current.position.x = player.x;
+    groupRef.current.position.y = player.y;
+
+    if (isSliding) {
+        // Leaning back, feet first
+        if (bodyRef.current) bodyRef.current.rotation.x = THREE.MathUtils.lerp(bodyRef.current.rotation.x, 1.0, delta * 20);
+    } else if (!isJumping) {
+        if (bodyRef.current) bodyRef.current.rotation.x = 0;
+    } else if (player.jumpsPerformed === 2 && bodyRef.current) {
+        // Double jump: one forward flip
+        if (prevJumps.current !== 2) spinRotation.current = 0;
+        spinRotation.current -= delta * 15;
+        if (spinRotation.current < -Math.PI * 2) spinRotation.current = -Math.PI * 2;
+        bodyRef.current.rotation.x = spinRotation.current;
     }
+    prevJumps.current = player.jumpsPerformed;
 
-    const xDiff = targetX.current - groupRef.current.position.x;
+    const xDiff = player.lane * LANE_WIDTH - player.x;
     groupRef.current.rotation.z = -xDiff * 0.2; 
-    groupRef.current.rotation.x = isJumping.current ? 0.1 : 0.05; 
+    groupRef.current.rotation.x = isJumping ? 0.1 : 0.05; 
 
     const time = state.clock.elapsedTime * 25; 
     
-    if (!isJumping.current) {
+    if (isSliding) {
+        const slidePoseSpeed = delta * 20;
+        if (leftArmRef.current) leftArmRef.current.rotation.x = THREE.MathUtils.lerp(leftArmRef.current.rotation.x, 1.2, slidePoseSpeed);
+        if (rightArmRef.current) rightArmRef.current.rotation.x = THREE.MathUtils.lerp(rightArmRef.current.rotation.x, -0.6, slidePoseSpeed);
+        if (leftLegRef.current) leftLegRef.current.rotation.x = THREE.MathUtils.lerp(leftLegRef.current.rotation.x, 0.5, slidePoseSpeed);
+        if (rightLegRef.current) rightLegRef.current.rotation.x = THREE.MathUtils.lerp(rightLegRef.current.rotation.x, 0.2, slidePoseSpeed);
+
+        // Crouched under the ducking hitbox
+        if (bodyRef.current) bodyRef.current.position.y = THREE.MathUtils.lerp(bodyRef.current.position.y, 0.45, slidePoseSpeed);
+    } else if (!isJumping) {
         if (leftArmRef.current) leftArmRef.current.rotation.x = Math.sin(time) * 0.7;
         if (rightArmRef.current) rightArmRef.current.rotation.x = Math.sin(time + Math.PI) * 0.7;
         if (leftLegRef.current) leftLegRef.current.rotation.x = Math.sin(time + Math.PI) * 1.0;
@@ -194,7 +115,16 @@ export const Player: React.FC = () => {
         if (leftLegRef.current) leftLegRef.current.rotation.x = THREE.MathUtils.lerp(leftLegRef.current.rotation.x, 0.5, jumpPoseSpeed);
         if (rightLegRef.current) rightLegRef.current.rotation.x = THREE.MathUtils.lerp(rightLegRef.current.rotation.x, -0.5, jumpPoseSpeed);
         
-        if (bodyRef.current && jumpsPerformed.current !== 2) bodyRef.current.position.y = 1.1; 
+        if (bodyRef.current && player.jumpsPerformed !== 2) bodyRef.current.position.y = 1.1; 
+    }
+
+    // The spear in hand is the next one to throw
+    if (spearRef.current) spearRef.current.visible = spears > 0 && player.throwCooldown <= 0;
+
+    // Shield pickup: a bubble that starts flickering when it's about to run out
+    if (shieldRef.current) {
+        const shieldLeft = player.powerUps.SHIELD;
+        shieldRef.current.visible = shieldLeft > 2 || (shieldLeft > 0 && Math.floor(state.clock.elapsedTime * 8) % 2 === 0);
     }
 
     if (shadowRef.current) {
@@ -221,16 +151,14 @@ export const Player: React.FC = () => {
     }
   });
 
+  // Damage flicker; the sound comes from the audio subscriber
   useEffect(() => {
-     const checkHit = (e: any) => {
-        if (isInvincible.current || isImmortalityActive) return;
-        audio.playDamage(); 
+     return simulation.bus.on('hit', (e) => {
+        if (isInvincible.current || e.isBlocked) return;
         isInvincible.current = true;
         lastDamageTime.current = Date.now();
-     };
-     window.addEventListener('player-hit', checkHit);
-     return () => window.removeEventListener('player-hit', checkHit);
-  }, [isImmortalityActive]);
+     });
+  }, [simulation]);
 
   return (
     <group ref={groupRef} position={[0, 0, 0]}>
@@ -251,7 +179,7 @@ export const Player: React.FC = () => {
         <group position={[0.25, 0.4, 0]} ref={rightArmRef}>
              <mesh position={[0, -0.25, 0]} geometry={ARM_GEO} material={skinMat} />
              {/* Spear in right hand */}
-             <group position={[0, -0.4, 0.3]} rotation={[Math.PI/4, 0, 0]}>
+             <group ref={spearRef} position={[0, -0.4, 0.3]} rotation={[Math.PI/4, 0, 0]}>
                  <mesh geometry={SPEAR_SHAFT} material={spearMat} />
                  <mesh position={[0, 0.9, 0]} geometry={SPEAR_TIP}>
                      <meshStandardMaterial color="#b0bec5" metalness={0.8} />
@@ -271,6 +199,10 @@ export const Player: React.FC = () => {
         </group>
       </group>
       
+      <mesh ref={shieldRef} position={[0, 0.9, 0]} geometry={SHIELD_BUBBLE_GEO} visible={false}>
+          <meshStandardMaterial color={POWERUP_COLORS.SHIELD} emissive={POWERUP_COLORS.SHIELD} emissiveIntensity={0.4} transparent opacity={0.25} depthWrite={false} />
+      </mesh>
+
       <mesh ref={shadowRef} position={[0, 0.02, 0]} rotation={[-Math.PI/2, 0, 0]} geometry={SHADOW_GEO}>
           <meshBasicMaterial color="#000000" opacity={0.3} transparent />
       </mesh>
@@ -0,0 +1,441 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame, useLoader } from '@react-three/fiber';
+import { Text3D, Center } from '@react-three/drei';
+import * as THREE from 'three';
+import { FontLoader } from 'three/examples/jsm/loaders/FontLoader.js';
+import { TextGeometry } from 'three/examples/jsm/geometries/TextGeometry.js';
+import { useStore } from '../../store';
+import { GameObject, ObjectType, LANE_WIDTH, PowerUpKind } from '../../types';
+import { useSimulation } from '../System/SimulationContext';
+import { OBJECT_POOL_SIZE } from '../System/ObjectPool';
+import { growInstances } from './InstancePool';
+
+// Track objects are drawn through one InstancedMesh per part (rock, boar body, boar tusk...),
+// refilled from the simulation every frame. Nothing here re-renders when objects come and go.
+
+const FONT_URL = "https://cdn.jsdelivr.net/npm/three/examples/fonts/helvetiker_bold.typeface.json";
+
+const GLYPH_CAPACITY = 16; // Letters of one character on the track at once, to start with
+
+// Geometry Constants
+const OBSTACLE_GEO = new THREE.DodecahedronGeometry(0.8, 0); // Rock shape
+const GEM_GEO = new THREE.OctahedronGeometry(0.3, 0); // Artifact
+
+// Boar Geometry (Simple shapes)
+const BOAR_BODY_GEO = new THREE.BoxGeometry(0.8, 0.6, 1.2);
+const BOAR_HEAD_GEO = new THREE.ConeGeometry(0.4, 0.6, 4);
+const BOAR_TUSK_GEO = new THREE.CylinderGeometry(0.02, 0.05, 0.4);
+
+// Monster Geometry (Ghost/Alien)
+const MONSTER_BODY_GEO = new THREE.CylinderGeometry(0.4, 0.1, 1.5, 8);
+const MONSTER_HEAD_GEO = new THREE.SphereGeometry(0.35, 16, 16);
+const MONSTER_EYE_GEO = new THREE.SphereGeometry(0.05);
+
+// Overhead Geometry (Branch / Vines)
+const BRANCH_GEO = new THREE.CylinderGeometry(0.12, 0.18, 2.4, 6);
+const LEAVES_GEO = new THREE.IcosahedronGeometry(0.35, 0);
+const VINE_BOUGH_GEO = new THREE.CylinderGeometry(0.1, 0.1, 2.0, 6);
+const VINE_STRAND_GEO = new THREE.CylinderGeometry(0.04, 0.03, 1.3, 4);
+
+// Power-up Geometry
+const HALO_GEO = new THREE.TorusGeometry(0.7, 0.05, 8, 32);
+const MAGNET_GEO = new THREE.TorusGeometry(0.3, 0.1, 8, 16, Math.PI); // Horseshoe
+const MAGNET_TIP_GEO = new THREE.BoxGeometry(0.2, 0.15, 0.2);
+const SHIELD_GEO = new THREE.CylinderGeometry(0.4, 0.4, 0.1, 6);
+const SHIELD_BOSS_GEO = new THREE.SphereGeometry(0.12, 12, 12);
+
+// Thrown Spear Geometry
+const SPEAR_SHAFT_GEO = new THREE.CylinderGeometry(0.03, 0.03, 1.8);
+const SPEAR_TIP_GEO = new THREE.ConeGeometry(0.06, 0.2);
+
+// Boss Geometries
+const ORB_GEO = new THREE.IcosahedronGeometry(0.6, 1);
+const ORB_RING_GEO = new THREE.TorusGeometry(0.8, 0.06, 8, 24);
+const WEAK_POINT_GEO = new THREE.OctahedronGeometry(0.45, 0);
+
+// Shop Geometries
+const SHOP_FRAME_GEO = new THREE.BoxGeometry(1, 7, 1);
+const SHOP_BACK_GEO = new THREE.BoxGeometry(1, 5, 1.2);
+
+const LABEL_GEO = new THREE.PlaneGeometry(2.56, 1.28);
+
+// Gems take their colour per instance, so the glow has to follow the instance colour too
+const createGemMaterial = () => {
+    const material = new THREE.MeshStandardMaterial({ color: '#ffffff', emissive: '#ffffff', emissiveIntensity: 0.5, metalness: 0.8, roughness: 0.2 });
+    material.onBeforeCompile = (shader) => {
+        shader.fragmentShader = shader.fragmentShader.replace(
+            'vec3 totalEmissiveRadiance = emissive;',
+            'vec3 totalEmissiveRadiance = emissive;\n#ifdef USE_COLOR\n\ttotalEmissiveRadiance *= vColor.rgb;\n#endif'
+        );
+    };
+    return material;
+};
+
+// One instanced pool: a shape, placed relative to its entity
+interface EntityPart {
+    geometry: THREE.BufferGeometry;
+    material: THREE.Material;
+    offset: THREE.Matrix4;
+    castShadow?: boolean;
+    receiveShadow?: boolean;
+    tinted?: boolean; // Coloured per object (obj.color)
+}
+
+const createOffset = (position: [number, number, number], rotation: [number, number, number] = [0, 0, 0], scale: [number, number, number] = [1, 1, 1]) => {
+    return new THREE.Matrix4().compose(
+        new THREE.Vector3(...position),
+        new THREE.Quaternion().setFromEuler(new THREE.Euler(...rotation)),
+        new THREE.Vector3(...scale)
+    );
+};
+
+const createParts = (): Partial<Record<ObjectType, EntityPart[]>> => {
+    const rock: EntityPart[] = [
+        { geometry: OBSTACLE_GEO, material: new THREE.MeshStandardMaterial({ color: '#78909c', roughness: 0.9 }), offset: createOffset([0, 0, 0]), castShadow: true, receiveShadow: true },
+    ];
+
+    const tuskMaterial = new THREE.MeshStandardMaterial({ color: '#eceff1' });
+    const boar: EntityPart[] = [
+        { geometry: BOAR_BODY_GEO, material: new THREE.MeshStandardMaterial({ color: '#4e342e' }), offset: createOffset([0, 0, 0]), castShadow: true },
+        // Head/Snout
+        { geometry: BOAR_HEAD_GEO, material: new THREE.MeshStandardMaterial({ color: '#3e2723' }), offset: createOffset([0, 0, 0.6], [Math.PI / 2, 0, 0]) },
+        // Tusks
+        { geometry: BOAR_TUSK_GEO, material: tuskMaterial, offset: createOffset([0.2, -0.1, 0.6], [Math.PI / 4, 0, 0]) },
+        { geometry: BOAR_TUSK_GEO, material: tuskMaterial, offset: createOffset([-0.2, -0.1, 0.6], [Math.PI / 4, 0, 0]) },
+    ];
+
+    const eyeMaterial = new THREE.MeshBasicMaterial({ color: '#ff0000' });
+    const monster: EntityPart[] = [
+        { geometry: MONSTER_BODY_GEO, material: new THREE.MeshStandardMaterial({ color: '#4a148c', transparent: true, opacity: 0.9 }), offset: createOffset([0, 0, 0]), castShadow: true },
+        { geometry: MONSTER_HEAD_GEO, material: new THREE.MeshStandardMaterial({ color: '#7b1fa2', emissive: '#4a148c', emissiveIntensity: 0.5 }), offset: createOffset([0, 0.8, 0]) },
+        // Eyes
+        { geometry: MONSTER_EYE_GEO, material: eyeMaterial, offset: createOffset([0.15, 0.8, 0.3]) },
+        { geometry: MONSTER_EYE_GEO, material: eyeMaterial, offset: createOffset([-0.15, 0.8, 0.3]) },
+    ];
+
+    const barkMaterial = new THREE.MeshStandardMaterial({ color: '#4e342e', roughness: 0.9 });
+    const leafMaterial = new THREE.MeshStandardMaterial({ color: '#2e7d32', roughness: 0.8 });
+    const branch: EntityPart[] = [
+        // Bough across the lane, sagging a little to one side
+        { geometry: BRANCH_GEO, material: barkMaterial, offset: createOffset([0, 0, 0], [0, 0, Math.PI / 2 - 0.08]), castShadow: true },
+        // Leaf clumps
+        { geometry: LEAVES_GEO, material: leafMaterial, offset: createOffset([-0.9, 0.2, 0], [0, 0, 0], [1.2, 0.9, 1.2]), castShadow: true },
+        { geometry: LEAVES_GEO, material: leafMaterial, offset: createOffset([0.1, 0.25, 0.1], [0.5, 0.3, 0], [1, 0.8, 1]), castShadow: true },
+        { geometry: LEAVES_GEO, material: leafMaterial, offset: createOffset([0.9, 0.15, -0.1], [0, 0.8, 0], [1.1, 0.8, 1.1]), castShadow: true },
+    ];
+
+    const vineMaterial = new THREE.MeshStandardMaterial({ color: '#558b2f', roughness: 0.8 });
+    const vine: EntityPart[] = [
+        // Bough overhead, strands hanging down to head height
+        { geometry: VINE_BOUGH_GEO, material: barkMaterial, offset: createOffset([0, 1.0, 0], [0, 0, Math.PI / 2]) },
+        { geometry: VINE_STRAND_GEO, material: vineMaterial, offset: createOffset([-0.7, 0.35, 0]), castShadow: true },
+        { geometry: VINE_STRAND_GEO, material: vineMaterial, offset: createOffset([-0.25, 0.25, 0.05], [0, 0, 0], [1, 1.15, 1]), castShadow: true },
+        { geometry: VINE_STRAND_GEO, material: vineMaterial, offset: createOffset([0.2, 0.35, -0.05]), castShadow: true },
+        { geometry: VINE_STRAND_GEO, material: vineMaterial, offset: createOffset([0.65, 0.3, 0], [0, 0, 0], [1, 1.08, 1]), castShadow: true },
+        { geometry: LEAVES_GEO, material: leafMaterial, offset: createOffset([-0.45, 1.05, 0], [0, 0, 0], [0.8, 0.5, 0.8]) },
+        { geometry: LEAVES_GEO, material: leafMaterial, offset: createOffset([0.45, 1.05, 0], [0, 0.6, 0], [0.8, 0.5, 0.8]) },
+    ];
+
+    // Flying point first, down the track
+    const spear: EntityPart[] = [
+        { geometry: SPEAR_SHAFT_GEO, material: new THREE.MeshStandardMaterial({ color: '#5d4037' }), offset: createOffset([0, 0, 0], [Math.PI / 2, 0, 0]) },
+        { geometry: SPEAR_TIP_GEO, material: new THREE.MeshStandardMaterial({ color: '#b0bec5', metalness: 0.8 }), offset: createOffset([0, 0, -1.0], [-Math.PI / 2, 0, 0]) },
+    ];
+
+    // Spirit fire hurled by the boss, ringed so it reads at a distance
+    const orb: EntityPart[] = [
+        { geometry: ORB_GEO, material: new THREE.MeshStandardMaterial({ color: '#76ff03', emissive: '#33691e', emissiveIntensity: 0.8, roughness: 0.4 }), offset: createOffset([0, 0, 0]), castShadow: true },
+        { geometry: ORB_RING_GEO, material: new THREE.MeshBasicMaterial({ color: '#ccff90' }), offset: createOffset([0, 0, 0], [Math.PI / 2, 0, 0]) },
+    ];
+
+    // A shard of the boss's heart, haloed like a power-up
+    const weakPoint: EntityPart[] = [
+        { geometry: WEAK_POINT_GEO, material: new THREE.MeshStandardMaterial({ color: '#ffea00', emissive: '#ff6f00', emissiveIntensity: 0.8 }), offset: createOffset([0, 0, 0], [0, 0, 0], [1, 1.6, 1]), castShadow: true },
+        { geometry: HALO_GEO, material: new THREE.MeshBasicMaterial({ color: '#fff59d' }), offset: createOffset([0, 0, 0]) },
+    ];
+
+    const gem: EntityPart[] = [
+        { geometry: GEM_GEO, material: createGemMaterial(), offset: createOffset([0, 0, 0], [0, 0, 0], [1.5, 2.5, 1.5]), castShadow: true, tinted: true },
+    ];
+
+    return {
+        [ObjectType.OBSTACLE]: rock,
+        [ObjectType.ALIEN]: boar, // Idle and charging boars look the same
+        [ObjectType.MISSILE]: boar,
+        [ObjectType.MONSTER]: monster,
+        [ObjectType.BRANCH]: branch,
+        [ObjectType.VINE]: vine,
+        [ObjectType.SPEAR]: spear,
+        [ObjectType.GEM]: gem,
+        [ObjectType.BOSS_ORB]: orb,
+        [ObjectType.WEAK_POINT]: weakPoint,
+    };
+};
+
+// Every power-up wears a ring in its colour; what's inside tells them apart
+const createPowerUpParts = (): Record<PowerUpKind, EntityPart[]> => {
+    const halo: EntityPart = { geometry: HALO_GEO, material: new THREE.MeshBasicMaterial({ color: '#ffffff' }), offset: createOffset([0, 0, 0]), tinted: true };
+    const silverMaterial = new THREE.MeshStandardMaterial({ color: '#cfd8dc', metalness: 0.8, roughness: 0.3 });
+    const goldMaterial = new THREE.MeshStandardMaterial({ color: '#ffca28', emissive: '#ff8f00', emissiveIntensity: 0.6, metalness: 0.8, roughness: 0.2 });
+
+    return {
+        MAGNET: [
+            halo,
+            { geometry: MAGNET_GEO, material: new THREE.MeshStandardMaterial({ color: '#e53935', roughness: 0.4 }), offset: createOffset([0, 0.1, 0], [0, 0, Math.PI]), castShadow: true },
+            { geometry: MAGNET_TIP_GEO, material: silverMaterial, offset: createOffset([0.3, 0.1, 0]) },
+            { geometry: MAGNET_TIP_GEO, material: silverMaterial, offset: createOffset([-0.3, 0.1, 0]) },
+        ],
+        // Two artifacts for one
+        MULTIPLIER: [
+            halo,
+            { geometry: GEM_GEO, material: goldMaterial, offset: createOffset([-0.2, 0, 0], [0, 0, 0], [1, 1.6, 1]), castShadow: true },
+            { geometry: GEM_GEO, material: goldMaterial, offset: createOffset([0.2, 0, 0], [0, 0, 0], [1, 1.6, 1]), castShadow: true },
+        ],
+        SHIELD: [
+            halo,
+            { geometry: SHIELD_GEO, material: new THREE.MeshStandardMaterial({ color: '#0288d1', emissive: '#01579b', emissiveIntensity: 0.4 }), offset: createOffset([0, 0, 0], [Math.PI / 2, 0, 0]), castShadow: true },
+            { geometry: SHIELD_BOSS_GEO, material: silverMaterial, offset: createOffset([0, 0, 0.08]) },
+        ],
+    };
+};
+
+// Floating score labels, one pool per text and colour
+const LABELS = [
+    { text: '+10', color: '#00e676' }, // Green
+    { text: '+50', color: '#00e676' },
+    { text: '+100', color: '#00e676' },
+    { text: '-10', color: '#ff1744' }, // Red
+    { text: '-100', color: '#d50000' }, // Deep Red
+    { text: '-100', color: '#ff5252' }, // Boar idle
+];
+
+const getLabelIndex = (obj: GameObject) => {
+    switch (obj.type) {
+        case ObjectType.GEM: return LABELS.findIndex(label => label.text === `+${obj.points}`);
+        case ObjectType.OBSTACLE:
+        case ObjectType.BRANCH:
+        case ObjectType.VINE: return 3;
+        case ObjectType.MISSILE:
+        case ObjectType.MONSTER:
+        case ObjectType.BOSS_ORB: return 4;
+        case ObjectType.ALIEN: return 5;
+        default: return -1;
+    }
+};
+
+const LABEL_OFFSET = createOffset([0, 2.5, 0]);
+
+// Outlined text on a transparent canvas, 100 pixels per world unit
+const createLabelTexture = (text: string, color: string) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = 256;
+    canvas.height = 128;
+    const context = canvas.getContext('2d')!;
+    context.font = 'bold 80px Helvetica, Arial, sans-serif';
+    context.textAlign = 'center';
+    context.textBaseline = 'middle';
+    context.lineJoin = 'round';
+    context.lineWidth = 10;
+    context.strokeStyle = '#000000';
+    context.strokeText(text, 128, 64);
+    context.fillStyle = color;
+    context.fillText(text, 128, 64);
+
+    const texture = new THREE.CanvasTexture(canvas);
+    texture.colorSpace = THREE.SRGBColorSpace;
+    return texture;
+};
+
+const createPool = (geometry: THREE.BufferGeometry, material: THREE.Material, capacity: number, tinted = false) => {
+    const mesh = new THREE.InstancedMesh(geometry, material, capacity);
+    mesh.count = 0;
+    mesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+    // Instances roam the whole track; the bounding sphere would only be stale
+    mesh.frustumCulled = false;
+    if (tinted) {
+        mesh.instanceColor = new THREE.InstancedBufferAttribute(new Float32Array(capacity * 3), 3);
+        mesh.instanceColor.setUsage(THREE.DynamicDrawUsage);
+    }
+    return mesh;
+};
+
+const disposePool = (pool: THREE.InstancedMesh, withGeometry = false) => {
+    const material = pool.material as THREE.MeshBasicMaterial;
+    material.map?.dispose();
+    material.dispose();
+    if (withGeometry) pool.geometry.dispose();
+    pool.dispose();
+};
+
+// Bob, hover and spin per type, as a transform for the whole entity
+const getEntityTransform = (obj: GameObject, time: number, target: THREE.Object3D) => {
+    let y = obj.position[1];
+    let spin = 0;
+    let sway = 0;
+
+    if (obj.type === ObjectType.MISSILE || obj.type === ObjectType.ALIEN) {
+        // Boar movement
+        y += Math.abs(Math.sin(time * 15)) * 0.1;
+    } else if (obj.type === ObjectType.MONSTER) {
+        // Monster hover
+        y += Math.sin(time * 2) * 0.3;
+        spin = time * 0.5;
+    } else if (obj.type === ObjectType.VINE) {
+        // Vines swing a little, offset per lane so a row doesn't move as one
+        sway = Math.sin(time * 1.5 + obj.position[0]) * 0.06;
+    } else if (obj.type === ObjectType.BOSS_ORB) {
+        // Orb wobble and tumble
+        y += Math.sin(time * 6) * 0.1;
+        spin = time * 4;
+    } else if (obj.type === ObjectType.GEM || obj.type === ObjectType.LETTER || obj.type === ObjectType.POWERUP || obj.type === ObjectType.WEAK_POINT) {
+        // Collectible bob
+        y += Math.sin(time * 3) * 0.2;
+        spin = time * 2;
+    }
+
+    target.position.set(obj.position[0], y, obj.position[2]);
+    target.rotation.set(0, spin, sway);
+    target.updateMatrix();
+    return target.matrix;
+};
+
+export const TrackEntities: React.FC = () => {
+    const simulation = useSimulation();
+    const targetWord = useStore(state => state.targetWord);
+    const font = useLoader(FontLoader, FONT_URL);
+
+    const { parts, powerUpParts, partPools } = useMemo(() => {
+        const partsByType = createParts();
+        const partsByKind = createPowerUpParts();
+        const unique = [...new Set([...Object.values(partsByType), ...Object.values(partsByKind)].flat())];
+        return {
+            parts: partsByType,
+            powerUpParts: partsByKind,
+            partPools: new Map(unique.map(part => {
+                const pool = createPool(part.geometry, part.material, OBJECT_POOL_SIZE, part.tinted);
+                pool.castShadow = !!part.castShadow;
+                pool.receiveShadow = !!part.receiveShadow;
+                return [part, pool] as const;
+            })),
+        };
+    }, []);
+
+    const labelPools = useMemo(() => LABELS.map(({ text, color }) => {
+        const material = new THREE.MeshBasicMaterial({ map: createLabelTexture(text, color), transparent: true, depthWrite: false });
+        return createPool(LABEL_GEO, material, OBJECT_POOL_SIZE);
+    }), []);
+
+    // Letters are extruded glyphs, one pool per character of the word being spelled
+    const glyphPools = useMemo(() => {
+        const material = new THREE.MeshStandardMaterial({ color: '#ffffff' });
+        return new Map([...new Set(targetWord)].map(char => {
+            const geometry = new TextGeometry(char, { font, size: 0.8, depth: 0.2, curveSegments: 8, bevelEnabled: false });
+            geometry.center();
+            return [char, createPool(geometry, material, GLYPH_CAPACITY, true)] as const;
+        }));
+    }, [font, targetWord]);
+
+    // Shared part geometries stay; everything created above goes
+    useEffect(() => () => partPools.forEach(pool => disposePool(pool)), [partPools]);
+    useEffect(() => () => labelPools.forEach(pool => disposePool(pool)), [labelPools]);
+    useEffect(() => () => glyphPools.forEach(pool => disposePool(pool, true)), [glyphPools]);
+
+    const scratch = useMemo(() => ({
+        entity: new THREE.Object3D(),
+        matrix: new THREE.Matrix4(),
+        color: new THREE.Color(),
+        letterScale: createOffset([0, 0, 0], [0, 0, 0], [1.5, 1.5, 1.5]),
+    }), []);
+
+    useFrame((state) => {
+        const time = state.clock.elapsedTime;
+        const { entity, matrix, color, letterScale } = scratch;
+
+        partPools.forEach(pool => { pool.count = 0; });
+        labelPools.forEach(pool => { pool.count = 0; });
+        glyphPools.forEach(pool => { pool.count = 0; });
+
+        // Appends one instance, growing the pool when it's full
+        const add = (pool: THREE.InstancedMesh, transform: THREE.Matrix4, tint?: string) => {
+            if (pool.count >= pool.instanceMatrix.count) growInstances(pool);
+            pool.setMatrixAt(pool.count, transform);
+            if (tint && pool.instanceColor) pool.setColorAt(pool.count, color.set(tint));
+            pool.count++;
+        };
+
+        for (const obj of simulation.objects) {
+            if (!obj.active || obj.type === ObjectType.SHOP_PORTAL) continue;
+            const transform = getEntityTransform(obj, time, entity);
+
+            if (obj.type === ObjectType.LETTER) {
+                const pool = obj.value !== undefined ? glyphPools.get(obj.value) : undefined;
+                if (pool) add(pool, matrix.multiplyMatrices(transform, letterScale), obj.color ?? '#ffffff');
+            } else {
+                const entityParts = obj.type === ObjectType.POWERUP ? powerUpParts[obj.value as PowerUpKind] : parts[obj.type];
+                entityParts?.forEach(part => {
+                    add(partPools.get(part)!, matrix.multiplyMatrices(transform, part.offset), part.tinted ? obj.color ?? '#ffffff' : undefined);
+                });
+            }
+
+            const labelIndex = getLabelIndex(obj);
+            if (labelIndex >= 0) add(labelPools[labelIndex], matrix.multiplyMatrices(transform, LABEL_OFFSET));
+        }
+
+        const flush = (pool: THREE.InstancedMesh) => {
+            pool.instanceMatrix.needsUpdate = true;
+            if (pool.instanceColor) pool.instanceColor.needsUpdate = true;
+        };
+        partPools.forEach(flush);
+        labelPools.forEach(flush);
+        glyphPools.forEach(flush);
+    });
+
+    return (
+        <group>
+            {[...partPools.values()].map((pool, i) => <primitive key={i} object={pool} />)}
+            {labelPools.map((pool, i) => <primitive key={i} object={pool} />)}
+            {[...glyphPools].map(([char, pool]) => <primitive key={char} object={pool} />)}
+            <ShopPortal />
+        </group>
+    );
+};
+
+// At most one portal on the track, so it stays a regular mesh group that's shown and moved
+const ShopPortal: React.FC = () => {
+    const simulation = useSimulation();
+    const laneCount = useStore(state => state.laneCount);
+    const groupRef = useRef<THREE.Group>(null);
+
+    useFrame(() => {
+        if (!groupRef.current) return;
+        let portal: GameObject | undefined;
+        for (const obj of simulation.objects) {
+            if (obj.active && obj.type === ObjectType.SHOP_PORTAL) portal = obj;
+        }
+        groupRef.current.visible = !!portal;
+        if (portal) groupRef.current.position.set(portal.position[0], 0, portal.position[2]);
+    });
+
+    return (
+        <group ref={groupRef} visible={false}>
+            <mesh position={[0, 3, 0]} geometry={SHOP_FRAME_GEO} scale={[laneCount * LANE_WIDTH + 2, 1, 1]}>
+                <meshStandardMaterial color="#5d4037" />
+            </mesh>
+            <mesh position={[0, 2, 0]} geometry={SHOP_BACK_GEO} scale={[laneCount * LANE_WIDTH, 1, 1]}>
+                <meshBasicMaterial color="#000000" />
+            </mesh>
+            <Center position={[0, 5, 0.6]}>
+                <Text3D font={FONT_URL} size={1.0} height={0.2}>
+                    TRADER
+                    <meshBasicMaterial color="#ffcc80" />
+                </Text3D>
+            </Center>
+        </group>
+    );
+};
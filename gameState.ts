@@ -0,0 +1,338 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { StateCreator } from 'zustand/vanilla';
+import { GameStatus, ObjectType, ShopItemId, RUN_SPEED_BASE, INITIAL_SCORE, INITIAL_SPEARS, SPEAR_BUNDLE, SCORE_BOSS_DEFEAT } from './types';
+import { createSeed } from './components/System/Random';
+import { ReplayController, ReplayLog } from './components/System/Replay';
+import { getLevelDefinition, getTargetWord, MAX_LEVEL } from './levels';
+
+export interface GameState {
+  status: GameStatus;
+  score: number;
+  lives: number;
+  maxLives: number;
+  speed: number;
+  collectedLetters: number[]; 
+  targetWord: string[]; // Letters to collect in the current level
+  runWord: string | null; // Run-wide word override for themed events
+  level: number;
+  laneCount: number;
+  gemsCollected: number;
+  distance: number;
+  seed: number; // Drives every spawn decision of the run
+  isReplay: boolean; // Inputs come from a recorded log instead of the player
+  runId: number; // Bumped on every new run so the simulation knows to reset
+  lastHitBy: ObjectType | null; // What took the last life, for run records
+  isBossFight: boolean; // The last word is spelled; the run is won once the boss falls
+
+  // Run stats, for achievements
+  hitsTaken: number;
+  levelHitsTaken: number; // Since the current level started
+  itemsBought: number;
+  maxCombo: number; // Longest pickup chain, for the end screens
+  
+  // Inventory / Abilities
+  hasDoubleJump: boolean;
+  hasImmortality: boolean;
+  isImmortalityActive: boolean;
+  spears: number; // Left to throw
+
+  // Actions
+  startGame: (seed?: number, word?: string) => void;
+  restartGame: () => void;
+  startReplay: (log: ReplayLog) => void;
+  takeDamage: (penaltyAmount: number, source?: ObjectType) => void;
+  addScore: (amount: number) => void;
+  collectGem: (value: number) => void;
+  collectLetter: (index: number) => void;
+  setStatus: (status: GameStatus) => void;
+  setDistance: (dist: number) => void;
+  recordCombo: (combo: number) => void; // The simulation reports every link; only a new best sticks
+  
+  // Shop / Abilities
+  buyItem: (type: ShopItemId, cost: number) => boolean;
+  advanceLevel: () => void;
+  defeatBoss: () => void;
+  openShop: () => void;
+  closeShop: () => void;
+  activateImmortality: () => boolean; // True if it switched on; the simulation times it
+  endImmortality: () => void;
+  throwSpear: () => boolean; // True if one was left; the simulation launches it
+
+  // Pause
+  pauseGame: () => void;
+  resumeGame: () => void;
+  quitToMenu: () => void;
+
+  // Save / Resume
+  restoreRun: (run: SavedRunState) => void;
+}
+
+// The plain data of a run in progress, as written into a save
+export type SavedRunState = Pick<GameState,
+  'status' | 'score' | 'lives' | 'maxLives' | 'speed' | 'collectedLetters' | 'targetWord' | 'runWord' |
+  'level' | 'laneCount' | 'gemsCollected' | 'distance' | 'seed' | 'lastHitBy' | 'isBossFight' | 'hitsTaken' | 'levelHitsTaken' |
+  'itemsBought' | 'maxCombo' | 'hasDoubleJump' | 'hasImmortality' | 'isImmortalityActive' | 'spears'
+>;
+
+export const pickRunState = (state: GameState): SavedRunState => ({
+  status: state.status,
+  score: state.score,
+  lives: state.lives,
+  maxLives: state.maxLives,
+  speed: state.speed,
+  collectedLetters: [...state.collectedLetters],
+  targetWord: [...state.targetWord],
+  runWord: state.runWord,
+  level: state.level,
+  laneCount: state.laneCount,
+  gemsCollected: state.gemsCollected,
+  distance: state.distance,
+  seed: state.seed,
+  lastHitBy: state.lastHitBy,
+  isBossFight: state.isBossFight,
+  hitsTaken: state.hitsTaken,
+  levelHitsTaken: state.levelHitsTaken,
+  itemsBought: state.itemsBought,
+  maxCombo: state.maxCombo,
+  hasDoubleJump: state.hasDoubleJump,
+  hasImmortality: state.hasImmortality,
+  isImmortalityActive: state.isImmortalityActive,
+  spears: state.spears,
+});
+
+// Everything a brand new run starts from
+const createRun = (seed: number, runWord: string | null) => ({
+  status: GameStatus.PLAYING,
+  seed,
+  runWord,
+  targetWord: getTargetWord(1, runWord),
+  isReplay: false,
+  lastHitBy: null,
+  isBossFight: false,
+  hitsTaken: 0,
+  levelHitsTaken: 0,
+  itemsBought: 0,
+  maxCombo: 0,
+  score: INITIAL_SCORE,
+  lives: 3,
+  maxLives: 3,
+  speed: RUN_SPEED_BASE * (1 + getLevelDefinition(1).speedBoost),
+  collectedLetters: [],
+  level: 1,
+  laneCount: getLevelDefinition(1).laneCount,
+  gemsCollected: 0,
+  distance: 0,
+  hasDoubleJump: false,
+  hasImmortality: false,
+  isImmortalityActive: false,
+  spears: INITIAL_SPEARS
+});
+
+// Plain zustand state creator with no React dependency: bound to React in store.ts,
+// used with a vanilla store for headless simulation runs. Each store records into its own
+// replay controller, so a headless run never touches the browser's log.
+export const createGameState = (replay: ReplayController = new ReplayController()): StateCreator<GameState> => (set, get) => ({
+  status: GameStatus.MENU,
+  score: INITIAL_SCORE,
+  lives: 3,
+  maxLives: 3,
+  speed: 0,
+  collectedLetters: [],
+  targetWord: getTargetWord(1),
+  runWord: null,
+  level: 1,
+  laneCount: getLevelDefinition(1).laneCount,
+  gemsCollected: 0,
+  distance: 0,
+  seed: createSeed(),
+  isReplay: false,
+  runId: 0,
+  lastHitBy: null,
+  isBossFight: false,
+  hitsTaken: 0,
+  levelHitsTaken: 0,
+  itemsBought: 0,
+  maxCombo: 0,
+  
+  hasDoubleJump: false,
+  hasImmortality: false,
+  isImmortalityActive: false,
+  spears: INITIAL_SPEARS,
+
+  startGame: (seed, word) => {
+    const runSeed = seed ?? createSeed();
+    const runWord = word ?? null;
+    replay.record(runSeed, runWord);
+    set((state) => ({ ...createRun(runSeed, runWord), runId: state.runId + 1 }));
+  },
+
+  // New track, same themed word (if any)
+  restartGame: () => {
+    const runSeed = createSeed();
+    const { runWord } = get();
+    replay.record(runSeed, runWord);
+    set((state) => ({ ...createRun(runSeed, runWord), runId: state.runId + 1 }));
+  },
+
+  startReplay: (log) => {
+    replay.play(log);
+    set((state) => ({ ...createRun(log.seed, log.word ?? null), isReplay: true, runId: state.runId + 1 }));
+  },
+
+  takeDamage: (penaltyAmount, source) => {
+    const { lives, isImmortalityActive, score, hitsTaken, levelHitsTaken } = get();
+    if (isImmortalityActive) return; // No damage if skill is active
+
+    // Calculate new score (clamped to 0)
+    const newScore = Math.max(0, score - penaltyAmount);
+
+    const lastHitBy = source ?? null;
+    const hits = { hitsTaken: hitsTaken + 1, levelHitsTaken: levelHitsTaken + 1 };
+
+    if (lives > 1) {
+      set({ lives: lives - 1, score: newScore, lastHitBy, ...hits });
+    } else {
+      set({ lives: 0, score: newScore, status: GameStatus.GAME_OVER, speed: 0, lastHitBy, ...hits });
+    }
+  },
+
+  addScore: (amount) => set((state) => ({ score: state.score + amount })),
+  
+  collectGem: (value) => set((state) => ({ 
+    score: state.score + value, 
+    gemsCollected: state.gemsCollected + 1 
+  })),
+
+  setDistance: (dist) => set({ distance: dist }),
+
+  recordCombo: (combo) => {
+    if (combo > get().maxCombo) set({ maxCombo: combo });
+  },
+
+  collectLetter: (index) => {
+    const { collectedLetters, targetWord, level, speed } = get();
+    
+    if (!collectedLetters.includes(index)) {
+      const newLetters = [...collectedLetters, index];
+      
+      // LINEAR SPEED INCREASE: Add 10% of BASE speed per letter
+      const speedIncrease = RUN_SPEED_BASE * 0.10;
+      const nextSpeed = speed + speedIncrease;
+
+      set({ 
+        collectedLetters: newLetters,
+        speed: nextSpeed
+      });
+
+      // Check if full word collected
+      if (newLetters.length === targetWord.length) {
+        if (level < MAX_LEVEL) {
+            get().advanceLevel();
+        } else {
+            // The simulation brings the boss in; defeatBoss() ends the run
+            set({ isBossFight: true });
+        }
+      }
+    }
+  },
+
+  advanceLevel: () => {
+      const { level, speed, runWord } = get();
+      const nextLevel = level + 1;
+      const definition = getLevelDefinition(nextLevel);
+      
+      const speedIncrease = RUN_SPEED_BASE * definition.speedBoost;
+      const newSpeed = speed + speedIncrease;
+
+      set({
+          level: nextLevel,
+          laneCount: definition.laneCount, 
+          targetWord: getTargetWord(nextLevel, runWord),
+          status: GameStatus.PLAYING,
+          speed: newSpeed,
+          collectedLetters: [],
+          levelHitsTaken: 0
+      });
+  },
+
+  defeatBoss: () => set((state) => ({
+      status: GameStatus.VICTORY,
+      score: state.score + SCORE_BOSS_DEFEAT,
+      isBossFight: false
+  })),
+
+  openShop: () => set({ status: GameStatus.SHOP }),
+  
+  closeShop: () => set({ status: GameStatus.PLAYING }),
+
+  buyItem: (type, cost) => {
+      const { score, maxLives, lives, itemsBought, spears } = get();
+      
+      if (score >= cost) {
+          set({ score: score - cost, itemsBought: itemsBought + 1 });
+          
+          switch (type) {
+              case 'DOUBLE_JUMP':
+                  set({ hasDoubleJump: true });
+                  break;
+              case 'MAX_LIFE':
+                  set({ maxLives: maxLives + 1, lives: lives + 1 });
+                  break;
+              case 'HEAL':
+                  set({ lives: Math.min(lives + 1, maxLives) });
+                  break;
+              case 'IMMORTAL':
+                  set({ hasImmortality: true });
+                  break;
+              case 'SPEARS':
+                  set({ spears: spears + SPEAR_BUNDLE });
+                  break;
+          }
+          return true;
+      }
+      return false;
+  },
+
+  activateImmortality: () => {
+      const { hasImmortality, isImmortalityActive } = get();
+      if (hasImmortality && !isImmortalityActive) {
+          set({ isImmortalityActive: true });
+          return true;
+      }
+      return false;
+  },
+
+  endImmortality: () => set({ isImmortalityActive: false }),
+
+  throwSpear: () => {
+      const { spears } = get();
+      if (spears <= 0) return false;
+      set({ spears: spears - 1 });
+      return true;
+  },
+
+  pauseGame: () => {
+      if (get().status === GameStatus.PLAYING) set({ status: GameStatus.PAUSED });
+  },
+
+  resumeGame: () => {
+      if (get().status === GameStatus.PAUSED) set({ status: GameStatus.PLAYING });
+  },
+
+  quitToMenu: () => set({ status: GameStatus.MENU, isReplay: false }),
+
+  // Counts as a new run for the simulation, which then gets its world restored separately
+  restoreRun: (run) => set((state) => ({
+    ...run,
+    isReplay: false,
+    runId: state.runId + 1
+  })),
+
+  setStatus: (status) => set({ status }),
+  increaseLevel: () => set((state) => ({ level: state.level + 1 })),
+});
\ No newline at end of file
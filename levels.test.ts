@@ -0,0 +1,43 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import { describe, it, expect } from 'vitest';
+import levelData from './data/levels.json';
+import { LEVELS, MAX_LEVEL, validateLevel } from './levels';
+
+const firstLevel = levelData[0];
+
+// The first bundled level with some fields swapped out
+const withChanges = (changes: Record<string, unknown>) => ({ ...firstLevel, ...changes });
+
+describe('levels.json', () => {
+  it('loads every bundled level', () => {
+    expect(LEVELS).toHaveLength(levelData.length);
+    expect(MAX_LEVEL).toBe(levelData.length);
+    LEVELS.forEach((level, index) => expect(level.level).toBe(index + 1));
+  });
+
+  it('accepts a level with a themed word and normalizes it', () => {
+    expect(validateLevel(withChanges({ word: ' jungle ' }), 0).word).toBe('JUNGLE');
+  });
+
+  it.each([
+    ['a level out of order', withChanges({ level: 2 }), 'levels.json entry 0: expected level 1, got 2'],
+    ['an even lane count', withChanges({ laneCount: 4 }), 'laneCount must be a positive odd integer'],
+    ['a hazard chance above 1', withChanges({ hazardChance: 1.5 }), 'hazardChance must be between 0 and 1'],
+    ['an unknown hazard type', withChanges({ hazards: [{ type: 'LAVA', weight: 1, maxCount: 1 }] }), 'unknown hazard type LAVA'],
+    ['a hazard without a weight', withChanges({ hazards: [{ type: 'OBSTACLE', maxCount: 1 }] }), 'hazard OBSTACLE needs a positive weight and maxCount'],
+    ['an unknown power-up kind', withChanges({ powerUps: [{ kind: 'JETPACK', weight: 1 }] }), 'unknown power-up kind JETPACK'],
+    ['missing fog', withChanges({ fog: undefined }), 'fog needs near, far and patches'],
+    ['a word the font cannot draw', withChanges({ word: 'JUNGLE!' }), 'word "JUNGLE!" must be letters or digits only'],
+  ])('rejects %s', (_, level, message) => {
+    expect(() => validateLevel(level, 0)).toThrow(message);
+  });
+
+  it('rejects an entry that is not an object', () => {
+    expect(() => validateLevel('Sunlit Trail', 0)).toThrow('levels.json entry 0: must be an object');
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import levelData from './data/levels.json';
+import { LevelDefinition, HazardSpawn, HazardType, PowerUpSpawn, PowerUpKind, ObjectType, DEFAULT_TARGET_WORD, LETTER_COLORS, POWERUP_KINDS } from './types';
+
+const HAZARD_TYPES: HazardType[] = [ObjectType.OBSTACLE, ObjectType.ALIEN, ObjectType.MONSTER, ObjectType.BRANCH, ObjectType.VINE];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isFraction = (value: unknown): value is number => isNumber(value) && value >= 0 && value <= 1;
+const isHazardType = (value: unknown): value is HazardType => HAZARD_TYPES.includes(value as HazardType);
+const isPowerUpKind = (value: unknown): value is PowerUpKind => POWERUP_KINDS.includes(value as PowerUpKind);
+
+// Fail loudly on a bad levels.json instead of spawning nonsense mid-run
+export const validateLevel = (def: unknown, index: number): LevelDefinition => {
+  const fail = (reason: string): never => {
+    throw new Error(`levels.json entry ${index}: ${reason}`);
+  };
+
+  if (!isRecord(def)) return fail('must be an object');
+  if (def.level !== index + 1) return fail(`expected level ${index + 1}, got ${def.level}`);
+  if (typeof def.name !== 'string') return fail('name must be a string');
+  if (!isNumber(def.laneCount) || !Number.isInteger(def.laneCount) || def.laneCount < 1 || def.laneCount % 2 === 0) return fail('laneCount must be a positive odd integer');
+  if (!isNumber(def.speedBoost)) return fail('speedBoost must be a number');
+  if (!isNumber(def.letterInterval) || def.letterInterval <= 0) return fail('letterInterval must be positive');
+  if (!isFraction(def.hazardChance)) return fail('hazardChance must be between 0 and 1');
+  if (!Array.isArray(def.hazards) || def.hazards.length === 0) return fail('hazards must be a non-empty list');
+  const hazards = def.hazards.map((h: unknown): HazardSpawn => {
+    if (!isRecord(h) || !isHazardType(h.type)) return fail(`unknown hazard type ${isRecord(h) ? h.type : h}`);
+    if (!isNumber(h.weight) || h.weight <= 0 || !isNumber(h.maxCount) || h.maxCount < 1) return fail(`hazard ${h.type} needs a positive weight and maxCount`);
+    return { type: h.type, weight: h.weight, maxCount: h.maxCount };
+  });
+  if (!isFraction(def.powerUpChance)) return fail('powerUpChance must be between 0 and 1');
+  if (!Array.isArray(def.powerUps) || (def.powerUpChance > 0 && def.powerUps.length === 0)) return fail('powerUps must be a list, non-empty when powerUpChance is set');
+  const powerUps = def.powerUps.map((p: unknown): PowerUpSpawn => {
+    if (!isRecord(p) || !isPowerUpKind(p.kind)) return fail(`unknown power-up kind ${isRecord(p) ? p.kind : p}`);
+    if (!isNumber(p.weight) || p.weight <= 0) return fail(`power-up ${p.kind} needs a positive weight`);
+    return { kind: p.kind, weight: p.weight };
+  });
+  const { fog, lighting } = def;
+  if (!isRecord(fog) || !isNumber(fog.near) || !isNumber(fog.far) || typeof fog.patches !== 'boolean') return fail('fog needs near, far and patches');
+  if (!isRecord(lighting) || !isNumber(lighting.sunIntensity) || !isNumber(lighting.ambientIntensity)) return fail('lighting needs sunIntensity and ambientIntensity');
+  if (typeof def.hasShopPortal !== 'boolean') return fail('hasShopPortal must be true or false');
+
+  const level: LevelDefinition = {
+    level: index + 1,
+    name: def.name,
+    laneCount: def.laneCount,
+    speedBoost: def.speedBoost,
+    hazardChance: def.hazardChance,
+    hazards,
+    powerUpChance: def.powerUpChance,
+    powerUps,
+    letterInterval: def.letterInterval,
+    fog: { near: fog.near, far: fog.far, patches: fog.patches },
+    lighting: { sunIntensity: lighting.sunIntensity, ambientIntensity: lighting.ambientIntensity },
+    hasShopPortal: def.hasShopPortal
+  };
+  if (def.word !== undefined) {
+    if (typeof def.word !== 'string' || !isValidWord(normalizeWord(def.word))) return fail(`word "${def.word}" must be letters or digits only`);
+    level.word = normalizeWord(def.word);
+  }
+
+  return level;
+};
+
+// Target words are rendered with the bundled Text3D font, so keep to A-Z and 0-9
+export const normalizeWord = (word: string) => word.trim().toUpperCase();
+export const isValidWord = (word: string) => /^[A-Z0-9]+$/.test(word);
+
+export const LEVELS: LevelDefinition[] = (levelData as unknown[]).map(validateLevel);
+
+export const MAX_LEVEL = LEVELS.length;
+
+export const getLevelDefinition = (level: number): LevelDefinition => {
+  return LEVELS[Math.min(Math.max(level, 1), MAX_LEVEL) - 1];
+};
+
+// A run-wide word (themed events) wins over the level's own word
+export const getTargetWord = (level: number, runWord?: string | null): string[] => {
+  return (runWord ?? getLevelDefinition(level).word ?? DEFAULT_TARGET_WORD).split('');
+};
+
+// Palette first, then evenly spread hues for words longer than the palette
+export const getLetterColor = (index: number) => {
+  if (index < LETTER_COLORS.length) return LETTER_COLORS[index];
+  const hue = Math.round((index * 137.5) % 360); // Golden angle keeps neighbours distinct
+  return `hsl(${hue}, 55%, 45%)`;
+};
+
+// Themed runs: ?word=SPRING in the URL
+export const getWordFromUrl = (): string | undefined => {
+  const param = new URLSearchParams(window.location.search).get('word');
+  if (param === null) return undefined;
+  const word = normalizeWord(param);
+  return isValidWord(word) ? word : undefined;
+};
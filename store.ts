@@ -5,202 +5,9 @@
 
 
 import { create } from 'zustand';
-import { GameStatus, RUN_SPEED_BASE, INITIAL_SCORE } from './types';
+import { createGameState, GameState } from './gameState';
+import { replay } from './components/System/Replay';
 
-interface GameState {
-  status: GameStatus;
-  score: number;
-  lives: number;
-  maxLives: number;
-  speed: number;
-  collectedLetters: number[]; 
-  level: number;
-  laneCount: number;
-  gemsCollected: number;
-  distance: number;
-  
-  // Inventory / Abilities
-  hasDoubleJump: boolean;
-  hasImmortality: boolean;
-  isImmortalityActive: boolean;
+export type { GameState };
 
-  // Actions
-  startGame: () => void;
-  restartGame: () => void;
-  takeDamage: (penaltyAmount: number) => void;
-  addScore: (amount: number) => void;
-  collectGem: (value: number) => void;
-  collectLetter: (index: number) => void;
-  setStatus: (status: GameStatus) => void;
-  setDistance: (dist: number) => void;
-  
-  // Shop / Abilities
-  buyItem: (type: 'DOUBLE_JUMP' | 'MAX_LIFE' | 'HEAL' | 'IMMORTAL', cost: number) => boolean;
-  advanceLevel: () => void;
-  openShop: () => void;
-  closeShop: () => void;
-  activateImmortality: () => void;
-}
-
-// Changed target to HUNTER (6 letters, matches previous length)
-const HUNTER_TARGET = ['H', 'U', 'N', 'T', 'E', 'R'];
-const MAX_LEVEL = 3;
-
-export const useStore = create<GameState>((set, get) => ({
-  status: GameStatus.MENU,
-  score: INITIAL_SCORE,
-  lives: 3,
-  maxLives: 3,
-  speed: 0,
-  collectedLetters: [],
-  level: 1,
-  laneCount: 3,
-  gemsCollected: 0,
-  distance: 0,
-  
-  hasDoubleJump: false,
-  hasImmortality: false,
-  isImmortalityActive: false,
-
-  startGame: () => set({ 
-    status: GameStatus.PLAYING, 
-    score: INITIAL_SCORE, 
-    lives: 3, 
-    maxLives: 3,
-    speed: RUN_SPEED_BASE,
-    collectedLetters: [],
-    level: 1,
-    laneCount: 3,
-    gemsCollected: 0,
-    distance: 0,
-    hasDoubleJump: false,
-    hasImmortality: false,
-    isImmortalityActive: false
-  }),
-
-  restartGame: () => set({ 
-    status: GameStatus.PLAYING, 
-    score: INITIAL_SCORE, 
-    lives: 3, 
-    maxLives: 3,
-    speed: RUN_SPEED_BASE,
-    collectedLetters: [],
-    level: 1,
-    laneCount: 3,
-    gemsCollected: 0,
-    distance: 0,
-    hasDoubleJump: false,
-    hasImmortality: false,
-    isImmortalityActive: false
-  }),
-
-  takeDamage: (penaltyAmount) => {
-    const { lives, isImmortalityActive, score } = get();
-    if (isImmortalityActive) return; // No damage if skill is active
-
-    // Calculate new score (clamped to 0)
-    const newScore = Math.max(0, score - penaltyAmount);
-
-    if (lives > 1) {
-      set({ lives: lives - 1, score: newScore });
-    } else {
-      set({ lives: 0, score: newScore, status: GameStatus.GAME_OVER, speed: 0 });
-    }
-  },
-
-  addScore: (amount) => set((state) => ({ score: state.score + amount })),
-  
-  collectGem: (value) => set((state) => ({ 
-    score: state.score + value, 
-    gemsCollected: state.gemsCollected + 1 
-  })),
-
-  setDistance: (dist) => set({ distance: dist }),
-
-  collectLetter: (index) => {
-    const { collectedLetters, level, speed } = get();
-    
-    if (!collectedLetters.includes(index)) {
-      const newLetters = [...collectedLetters, index];
-      
-      // LINEAR SPEED INCREASE: Add 10% of BASE speed per letter
-      const speedIncrease = RUN_SPEED_BASE * 0.10;
-      const nextSpeed = speed + speedIncrease;
-
-      set({ 
-        collectedLetters: newLetters,
-        speed: nextSpeed
-      });
-
-      // Check if full word collected
-      if (newLetters.length === HUNTER_TARGET.length) {
-        if (level < MAX_LEVEL) {
-            get().advanceLevel();
-        } else {
-            set({
-                status: GameStatus.VICTORY,
-                score: get().score + 5000
-            });
-        }
-      }
-    }
-  },
-
-  advanceLevel: () => {
-      const { level, laneCount, speed } = get();
-      const nextLevel = level + 1;
-      
-      const speedIncrease = RUN_SPEED_BASE * 0.40;
-      const newSpeed = speed + speedIncrease;
-
-      set({
-          level: nextLevel,
-          laneCount: Math.min(laneCount + 2, 9), 
-          status: GameStatus.PLAYING,
-          speed: newSpeed,
-          collectedLetters: [] 
-      });
-  },
-
-  openShop: () => set({ status: GameStatus.SHOP }),
-  
-  closeShop: () => set({ status: GameStatus.PLAYING }),
-
-  buyItem: (type, cost) => {
-      const { score, maxLives, lives } = get();
-      
-      if (score >= cost) {
-          set({ score: score - cost });
-          
-          switch (type) {
-              case 'DOUBLE_JUMP':
-                  set({ hasDoubleJump: true });
-                  break;
-              case 'MAX_LIFE':
-                  set({ maxLives: maxLives + 1, lives: lives + 1 });
-                  break;
-              case 'HEAL':
-                  set({ lives: Math.min(lives + 1, maxLives) });
-                  break;
-              case 'IMMORTAL':
-                  set({ hasImmortality: true });
-                  break;
-          }
-          return true;
-      }
-      return false;
-  },
-
-  activateImmortality: () => {
-      const { hasImmortality, isImmortalityActive } = get();
-      if (hasImmortality && !isImmortalityActive) {
-          set({ isImmortalityActive: true });
-          setTimeout(() => {
-              set({ isImmortalityActive: false });
-          }, 5000);
-      }
-  },
-
-  setStatus: (status) => set({ status }),
-  increaseLevel: () => set((state) => ({ level: state.level + 1 })),
-}));
\ No newline at end of file
+export const useStore = create<GameState>()(createGameState(replay));
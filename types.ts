@@ -7,6 +7,7 @@
 export enum GameStatus {
   MENU = 'MENU',
   PLAYING = 'PLAYING',
+  PAUSED = 'PAUSED',
   SHOP = 'SHOP',
   GAME_OVER = 'GAME_OVER',
   VICTORY = 'VICTORY'
@@ -19,36 +20,113 @@ export enum ObjectType {
   SHOP_PORTAL = 'SHOP_PORTAL',
   ALIEN = 'ALIEN', // Idle Boars
   MISSILE = 'MISSILE', // Charging Boars
-  MONSTER = 'MONSTER' // Level 3 Ghosts/Enemies
+  MONSTER = 'MONSTER', // Level 3 Ghosts/Enemies
+  BRANCH = 'BRANCH', // Low branch across the lane, slide under it
+  VINE = 'VINE', // Hanging vines, slide under them
+  SPEAR = 'SPEAR', // Thrown by the player
+  POWERUP = 'POWERUP', // Timed effect; which one is in `value`
+  BOSS_ORB = 'BOSS_ORB', // Hurled down a lane by the boss
+  WEAK_POINT = 'WEAK_POINT' // Dropped by the boss; picking it up wounds it
 }
 
 export interface GameObject {
-  id: string;
+  id: string; // The pooled slot, reused once the object is gone
+  spawnId: number; // Unique to this spawn, for anything that must not carry over to the slot's next object
   type: ObjectType;
   position: [number, number, number]; // x, y, z
   active: boolean;
-  value?: string; 
+  value?: string; // Letter, or PowerUpKind
   color?: string;
   targetIndex?: number;
   points?: number; 
   hasFired?: boolean; 
 }
 
+// Hazards a level can roll; MISSILE is never spawned directly (idle boars turn into it)
+export type HazardType = ObjectType.OBSTACLE | ObjectType.ALIEN | ObjectType.MONSTER | ObjectType.BRANCH | ObjectType.VINE;
+
+export interface HazardSpawn {
+  type: HazardType;
+  weight: number; // Relative to the other hazards of the level
+  maxCount: number; // Up to this many side by side in one row
+}
+
+// Timed effects picked up on the track
+export type PowerUpKind = 'MAGNET' | 'MULTIPLIER' | 'SHIELD';
+
+export const POWERUP_KINDS: PowerUpKind[] = ['MAGNET', 'MULTIPLIER', 'SHIELD'];
+
+export interface PowerUpSpawn {
+  kind: PowerUpKind;
+  weight: number; // Relative to the other power-ups of the level
+}
+
+// One entry of data/levels.json
+export interface LevelDefinition {
+  level: number;
+  name: string;
+  laneCount: number;
+  speedBoost: number; // Added on entry, as a fraction of RUN_SPEED_BASE
+  hazardChance: number; // Chance a spawn row is hazards rather than a lone artifact
+  hazards: HazardSpawn[];
+  powerUpChance: number; // Chance a lone artifact is a power-up instead
+  powerUps: PowerUpSpawn[];
+  letterInterval: number; // Distance between letter spawns
+  fog: { near: number; far: number; patches: boolean };
+  lighting: { sunIntensity: number; ambientIntensity: number };
+  hasShopPortal: boolean; // Trader gate at the start of the level
+  word?: string; // Letters to collect in this level, DEFAULT_TARGET_WORD if omitted
+}
+
+// Everything the player can do mid-run, whatever the device
+export type InputAction = 'MOVE_LEFT' | 'MOVE_RIGHT' | 'JUMP' | 'SLIDE' | 'THROW' | 'ABILITY';
+
+export const INPUT_ACTIONS: InputAction[] = ['MOVE_LEFT', 'MOVE_RIGHT', 'JUMP', 'SLIDE', 'THROW', 'ABILITY'];
+
 export const LANE_WIDTH = 2.2;
 export const JUMP_HEIGHT = 2.5;
 export const JUMP_DURATION = 0.6; // seconds
+export const SLIDE_DURATION = 0.7; // seconds
+export const OVERHEAD_HEIGHT = 1.5; // Branches and vines hang across the lane at this height
 export const RUN_SPEED_BASE = 22.5;
 export const SPAWN_DISTANCE = 120;
 export const REMOVE_DISTANCE = 20; // Behind player
+export const IMMORTALITY_DURATION = 5; // Seconds of game time
+export const POWERUP_DURATIONS: Record<PowerUpKind, number> = { // Seconds of game time
+  MAGNET: 8,
+  MULTIPLIER: 10,
+  SHIELD: 15, // Or until it takes a hit
+};
+export const GEM_MULTIPLIER = 2;
+export const SPEAR_COOLDOWN = 0.5; // Seconds of game time between throws
+export const INITIAL_SPEARS = 3;
+export const SPEAR_BUNDLE = 3; // Spears per shop purchase
 
 // Scoring Constants
 export const INITIAL_SCORE = 300;
 export const SCORE_PENALTY_BOAR = 100;
 export const SCORE_PENALTY_MONSTER = 100;
 export const SCORE_PENALTY_OBSTACLE = 10;
+export const SCORE_PENALTY_BOSS_ORB = 100;
+export const SCORE_BOUNTY_BOAR = 150;
+export const SCORE_BOUNTY_MONSTER = 250;
+export const COMBO_WINDOW = 3; // Seconds of game time to extend the chain before it lapses
+export const COMBO_STEP = 10; // Chain links per extra gem multiplier
+export const COMBO_MAX_MULTIPLIER = 4;
+export const SCORE_BOSS_DEFEAT = 5000; // The run's victory bonus
+
+// Boss at the end of the last level
+export const BOSS_NAME = 'THE ELDER SPIRIT';
+export const BOSS_PHASE_COUNT = 3;
+export const BOSS_HEALTH_PER_PHASE = 3; // Weak points to take it into the next phase
+export const BOSS_MAX_HEALTH = BOSS_PHASE_COUNT * BOSS_HEALTH_PER_PHASE;
+export const BOSS_DISTANCE = 60; // Stays this far ahead of the player
+export const BOSS_INTRO_DURATION = 3; // Seconds it takes to rise before the first attack
 
-// Earthy/Nature Colors for HUNTER
-export const HUNTER_COLORS = [
+export const DEFAULT_TARGET_WORD = 'HUNTER';
+
+// Earthy/Nature Colors for the target word letters (longer words extend it, see getLetterColor)
+export const LETTER_COLORS = [
     '#5d4037', // Brown
     '#388e3c', // Green
     '#fbc02d', // Yellow
@@ -57,8 +135,18 @@ export const HUNTER_COLORS = [
     '#388e3c', // Green
 ];
 
+export const POWERUP_COLORS: Record<PowerUpKind, string> = {
+    MAGNET: '#e53935', // Red
+    MULTIPLIER: '#ffb300', // Amber
+    SHIELD: '#29b6f6', // Sky Blue
+};
+
+export type ShopItemId = 'DOUBLE_JUMP' | 'MAX_LIFE' | 'HEAL' | 'IMMORTAL' | 'SPEARS';
+
+export const SHOP_ITEM_IDS: ShopItemId[] = ['DOUBLE_JUMP', 'MAX_LIFE', 'HEAL', 'IMMORTAL', 'SPEARS'];
+
 export interface ShopItem {
-    id: string;
+    id: ShopItemId;
     name: string;
     description: string;
     cost: number;
@@ -21,6 +21,8 @@ export default defineConfig(({ mode }) => {
     define: {
       'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
       'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+      // Dev console, never in production builds
+      'process.env.DEV_TOOLS': JSON.stringify(String(mode !== 'production')),
     },
 
     resolve: {